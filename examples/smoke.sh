@@ -0,0 +1,91 @@
+#!/usr/bin/env bash
+# Runs `harness loop` with the scripted backend on a fresh copy of each
+# example and checks what the harness did. No Claude calls.
+set -euo pipefail
+
+examples="$(cd "$(dirname "$0")" && pwd)"
+root="$(dirname "$examples")"
+work="$(mktemp -d)"
+trap 'rm -rf "$work"' EXIT
+
+fail() {
+  echo "✗ $example: $*" >&2
+  echo "── loop output" >&2
+  cat "$work/$example.log" >&2
+  exit 1
+}
+
+# run_loop <example> [loop flags...]: copy the example into a new git repo
+# (two commits, so a reset can go back past the starting HEAD) and run loop on it
+run_loop() {
+  example="$1"
+  shift
+  project="$work/$example"
+  mkdir -p "$project"
+  cp "$examples/$example/feature_list.json" "$project/"
+  git -C "$project" init -q
+  git -C "$project" add -A
+  git -C "$project" -c user.name=harness -c user.email=harness@localhost commit -qm "Initial feature list"
+  echo "# $example" > "$project/README.md"
+  git -C "$project" add -A
+  git -C "$project" -c user.name=harness -c user.email=harness@localhost commit -qm "Add README"
+
+  echo "▶ $example"
+  npx tsx "$root/src/cli.ts" loop -p "$project" --script "$examples/$example/script.json" "$@" \
+    > "$work/$example.log" 2>&1 || fail "loop exited with an error"
+}
+
+# query <js expression>: evaluated with `features` (by id) and `attempts` of the project
+query() {
+  node -e '
+    const fs = require("fs");
+    const [list, attemptsFile, expression] = process.argv.slice(1);
+    const features = Object.fromEntries(JSON.parse(fs.readFileSync(list, "utf8")).features.map((f) => [f.id, f]));
+    const attempts = fs.existsSync(attemptsFile) ? JSON.parse(fs.readFileSync(attemptsFile, "utf8")) : [];
+    console.log(eval(expression));
+  ' "$project/feature_list.json" "$project/.harness/attempts.json" "$1"
+}
+
+expect_status() {
+  local status
+  status="$(query "features['$1'].status")"
+  [ "$status" = "$2" ] || fail "$1 is $status, expected $2"
+}
+
+# Two sessions that both succeed
+run_loop happy-path --max 5
+expect_status F001 completed
+expect_status F002 completed
+
+# Verification fails: the feature fails and the work is saved under the attempt's ref, then removed
+run_loop failing-verification --max 1
+expect_status F001 failed
+ref="$(query "attempts[0].rollback?.ref")"
+[ "$ref" = "refs/harness/attempts/$(query "attempts[0].id")" ] || fail "no rollback ref recorded (got $ref)"
+git -C "$project" cat-file -e "$ref:sum.js" 2>/dev/null || fail "sum.js is not saved in $ref"
+[ ! -e "$project/sum.js" ] || fail "sum.js is still in the working tree"
+
+# The session also marks a feature it wasn't given as completed: that edit is reverted
+run_loop out-of-scope-edit --max 1
+expect_status F001 completed
+expect_status F002 pending
+[ "$(query "attempts[0].featureListViolations?.[0]?.featureId")" = F002 ] || fail "the F002 edit is not recorded"
+
+# Four independent features, two at a time, each merged back from its worktree
+run_loop parallel --parallel 2 --max 8
+for id in F001 F002 F003 F004; do
+  expect_status "$id" completed
+done
+for file in add subtract multiply divide; do
+  git -C "$project" cat-file -e "HEAD:src/$file.js" 2>/dev/null || fail "src/$file.js was not merged"
+done
+[ -z "$(git -C "$project" ls-tree -r --name-only HEAD .harness)" ] || fail ".harness/ was committed"
+
+# Dangerous commands behind wrappers, eval and git -C: each one is denied by its rule
+run_loop command-rules --max 1
+expect_status F001 completed
+rules="$(query "attempts[0].deniedToolCalls?.map((denial) => denial.rule).join(' ')")"
+expected="git-push git-push rm-outside git-push publish git-push git-reset-hard"
+[ "$rules" = "$expected" ] || fail "denied rules: '$rules', expected '$expected'"
+
+echo "✓ All examples passed"
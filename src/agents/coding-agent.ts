@@ -1,38 +1,145 @@
-import { runAgentQuery, buildMCPServers } from '../core/agent-sdk-client.js';
+import { SdkAgentBackend, type AgentBackend } from '../core/agent-backend.js';
+import {
+  buildMCPServers,
+  type AgentQueryOptions,
+  type AgentQueryResult,
+} from '../core/agent-sdk-client.js';
+import { evaluateAcceptanceCriteria } from '../core/acceptance-checks.js';
+import { AttemptStore } from '../core/attempt-store.js';
 import { ContextBuilder } from '../core/context-builder.js';
+import { isSchedulable } from '../core/feature-lifecycle.js';
+import { guardFeatureList } from '../core/feature-list-guard.js';
+import { getHarnessDir } from '../core/harness-dir.js';
+import { extractSummary } from '../core/progress-log.js';
+import { freePorts, ProcessTracker } from '../core/process-cleanup.js';
+import { loadProjectConfig, type HarnessProjectConfig } from '../core/project-config.js';
+import {
+  isToolAllowed,
+  resolveToolPolicy,
+  withToolRestrictions,
+  type ToolApprover,
+} from '../core/permission-policy.js';
+import {
+  hasUncommittedChanges,
+  rollbackAttempt,
+  type RollbackOptions,
+} from '../core/rollback.js';
+import { cleanupTranscripts, TranscriptRecorder } from '../core/transcript.js';
+import { runVerification } from '../core/verification.js';
+import { findResumeProblem, SessionCheckpointer } from '../core/session-checkpoint.js';
 import {
   CODING_AGENT_SYSTEM_PROMPT,
   buildCodingAgentContext,
+  buildResumePrompt,
   getSystemPromptForType,
 } from '../prompts/coding-agent.js';
 import type {
   AgentConfig,
+  AttemptOutcome,
+  AttemptRecord,
+  Feature,
+  FeatureList,
+  FeatureListViolation,
+  FeatureType,
+  KilledProcess,
+  ProgressEntry,
+  RollbackPolicy,
+  RollbackRecord,
   SessionResult,
+  ToolDenial,
+  TranscriptRecord,
 } from '../types/index.js';
 
+/** Commit message prefix each agent's prompt asks for */
+const COMMIT_PREFIXES: Record<FeatureType, string> = {
+  feature: 'feat',
+  refactoring: 'refactor',
+  bugfix: 'fix',
+  improvement: 'improve',
+  docs: 'docs',
+};
+
 export interface CodingAgentOptions {
   workspacePath: string;
+  /** Work on this feature instead of the next ready one */
+  featureId?: string | undefined;
+  /** Only pick the next ready feature of this type */
+  featureType?: FeatureType | undefined;
   onOutput?: ((text: string) => void) | undefined;
   onProgress?: ((message: string) => void) | undefined;
   maxTurns?: number | undefined;
+  /** Stop the session once it has cost this much (USD) */
+  maxBudgetUsd?: number | undefined;
   /** Supabase project ref for MCP (overrides env var) */
   supabaseProjectRef?: string | undefined;
+  /** Require verification commands and acceptance checks to pass before accepting completion (default: true) */
+  verify?: boolean | undefined;
+  /** What to do with the changes of a failed session (default: none) */
+  rollback?: RollbackPolicy | undefined;
+  /**
+   * Project whose attempt history and progress.log record the session
+   * (default: workspacePath). Set when the session runs in a worktree.
+   */
+  stateRoot?: string | undefined;
+  /**
+   * Called once a session has passed verification, before it is recorded.
+   * Returning an error message fails the session (used to merge worktree branches).
+   * Commands it runs get env, so their leftovers are cleaned up with the session's.
+   */
+  integrate?:
+    | ((feature: Feature, env: Record<string, string> | undefined) => Promise<string | undefined>)
+    | undefined;
+  /**
+   * Continue the feature's interrupted session when the working tree still
+   * matches its last checkpoint (default: false, always start fresh)
+   */
+  resume?: boolean | undefined;
+  /**
+   * Aborting it stops the agent session; the attempt is recorded as
+   * interrupted and the feature goes back to pending
+   */
+  abortController?: AbortController | undefined;
+  /**
+   * Kill whatever listens on these ports before the session
+   * (default: processes.freePorts from .harness/config.json)
+   */
+  freePorts?: number[] | undefined;
+  /** Asked before each tool call the guard allows (supervised runs) */
+  approveToolCall?: ToolApprover | undefined;
+  /**
+   * Settings loaded when the run started (default: read from stateRoot).
+   * A loop passes them so a session can't change the rules of the next one.
+   */
+  projectConfig?: HarnessProjectConfig | undefined;
 }
 
 export class CodingAgent {
   private config: AgentConfig;
+  private backend: AgentBackend;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, backend: AgentBackend = new SdkAgentBackend()) {
     this.config = config;
+    this.backend = backend;
   }
 
   async runSession(options: CodingAgentOptions): Promise<SessionResult> {
     const {
       workspacePath,
+      featureId,
+      featureType,
       onOutput,
       onProgress,
       maxTurns = 50,
+      maxBudgetUsd,
       supabaseProjectRef,
+      verify = true,
+      rollback = 'none',
+      stateRoot = workspacePath,
+      integrate,
+      resume = false,
+      abortController,
+      freePorts: portsToFree,
+      approveToolCall,
     } = options;
 
     const log = (msg: string) => {
@@ -43,92 +150,531 @@ export class CodingAgent {
 
     // 1. Build session context
     log('Building session context...');
-    const sessionContext = await contextBuilder.buildSessionContext();
+    const sessionContext = await contextBuilder.buildSessionContext({ featureId, featureType });
 
     if (!sessionContext) {
       return {
         success: false,
-        featureId: '',
-        error: 'No pending features found. All features may be complete.',
-        progressEntry: '',
+        featureId: featureId ?? '',
+        error: featureId
+          ? `Feature ${featureId} not found in feature_list.json`
+          : `No pending ${featureType ? `${featureType} ` : ''}features found. All features may be complete.`,
       };
     }
 
     const { feature, progressLog, gitLog, projectStructure } = sessionContext;
+    if (!isSchedulable(feature)) {
+      return {
+        success: false,
+        featureId: feature.id,
+        error: `Feature ${feature.id} is ${feature.status} and cannot be worked on`,
+      };
+    }
     log(`Working on feature: ${feature.id} - ${feature.title}`);
 
-    // 2. Build user message with context
-    const userMessage = buildCodingAgentContext(
-      feature,
-      progressLog,
-      gitLog,
-      projectStructure
-    );
+    // Mark the feature as in progress so a crash leaves a trace
+    await contextBuilder.setFeatureStatus(feature.id, 'in_progress');
+    feature.status = 'in_progress';
+
+    // Open an attempt record linked to the feature
+    const attemptStore = new AttemptStore(stateRoot);
+    let previousAttempt = (await attemptStore.list(feature.id)).pop();
+
+    // A previous attempt still "running" was cut off (crash, reboot, forced exit);
+    // an "interrupted" one was stopped cleanly. Either can be continued.
+    let resumeFrom: AttemptRecord | undefined;
+    if (previousAttempt?.outcome === 'running' || previousAttempt?.outcome === 'interrupted') {
+      const problem = resume
+        ? await findResumeProblem(previousAttempt.checkpoint, workspacePath)
+        : 'resume not requested';
+      if (problem) {
+        log(`Previous session was interrupted; starting a new one (${problem})`);
+      } else {
+        resumeFrom = previousAttempt;
+        log(`Resuming interrupted session ${previousAttempt.checkpoint?.sessionId} (${previousAttempt.id})`);
+      }
+      if (previousAttempt.outcome === 'running') {
+        previousAttempt = await attemptStore.update(previousAttempt.id, {
+          outcome: 'interrupted',
+          error: 'The harness stopped before the session finished',
+        }) ?? previousAttempt;
+      }
+    }
+
+    const attempt = await attemptStore.start(feature, await contextBuilder.getHeadCommit());
+    if (resumeFrom) {
+      await attemptStore.update(attempt.id, { resumedFrom: resumeFrom.id });
+    }
+    const checkpointer = new SessionCheckpointer(attemptStore, attempt.id, workspacePath);
+
+    // Keep the full message stream in .harness/sessions/<attempt id>.jsonl
+    const projectConfig = options.projectConfig ?? await this.loadConfig(stateRoot, log);
+    const transcriptConfig = projectConfig.transcripts ?? {};
+    const recorder = await this.openTranscript(stateRoot, attempt.id, transcriptConfig, log);
+
+    // Dev servers and watchers from earlier runs would hold the ports the agent needs
+    const killedProcesses = await this.freePorts(portsToFree ?? projectConfig.processes?.freePorts ?? [], log);
+    // Everything the session starts carries the attempt id, so only that is cleaned up
+    const processTracker = projectConfig.processes?.cleanup === false
+      ? null
+      : new ProcessTracker(attempt.id);
+
+    const toolPolicy = resolveToolPolicy(feature.type ?? 'feature', projectConfig.permissions);
+    const deniedToolCalls: ToolDenial[] = [];
+
+    // Snapshot feature_list.json: the agent may only change the target's status
+    const featureListSnapshot = await contextBuilder.loadFeatureList();
+    let featureListViolations: FeatureListViolation[] = [];
+
+    // progress.log is owned by the harness; anything the agent writes there is undone
+    const progressLogSnapshot = await contextBuilder.readProgressLog();
+
+    // Never roll back over changes that were already there before the session
+    const startedDirty = rollback !== 'none' && await hasUncommittedChanges(workspacePath);
+
+    // 2. Build user message with context (a resumed session already has it)
+    const userMessage = resumeFrom
+      ? buildResumePrompt(feature)
+      : buildCodingAgentContext(
+        feature,
+        progressLog,
+        gitLog,
+        projectStructure,
+        previousAttempt
+      );
 
     // 3. Run Claude Agent SDK
     // The SDK provides all tools for file editing, bash, etc.
-    log('Starting Claude Agent SDK session...');
+    log(`Starting agent session (${this.backend.name} backend)...`);
+
+    let result: SessionResult;
+    let outcome: AttemptOutcome;
+    let queryResult: AgentQueryResult | undefined;
 
     try {
-      const queryOptions: Parameters<typeof runAgentQuery>[0] = {
+      const queryOptions: AgentQueryOptions = {
         prompt: userMessage,
-        systemPrompt: getSystemPromptForType(feature.type),
+        systemPrompt: withToolRestrictions(getSystemPromptForType(feature.type), toolPolicy),
         workingDirectory: workspacePath,
+        model: this.config.model,
         maxTurns,
-        mcpServers: buildMCPServers({ supabaseProjectRef }),
+        maxBudgetUsd,
+        mcpServers: buildMCPServers({ supabaseProjectRef, servers: projectConfig.mcpServers }),
+        resumeSessionId: resumeFrom?.checkpoint?.sessionId,
+        abortController,
+        toolPolicy,
+        sandbox: projectConfig.sandbox,
+        // From a worktree, the main checkout's state is out of reach too
+        readOnlyPaths: stateRoot === workspacePath ? [] : [getHarnessDir(stateRoot)],
+        commandPolicy: projectConfig.commands,
+        env: processTracker?.env,
+        approveToolCall,
+        onToolDenied: (denial) => {
+          deniedToolCalls.push(denial);
+          log(`Denied ${denial.tool}: ${denial.reason}`);
+        },
       };
       if (onOutput) queryOptions.onText = onOutput;
+      queryOptions.onMessage = (message) => {
+        recorder?.record(message);
+        checkpointer.observe(message);
+      };
+
+      try {
+        queryResult = await this.backend.runQuery(queryOptions);
+      } finally {
+        // An interrupted session may be resumed: save the tree as the agent left it
+        await checkpointer.flush(abortController?.signal.aborted);
+      }
 
-      const result = await runAgentQuery(queryOptions);
+      // 4. Revert out-of-scope edits to feature_list.json
+      if (featureListSnapshot) {
+        featureListViolations = await this.guardFeatureList(
+          contextBuilder,
+          featureListSnapshot,
+          feature.id
+        );
+        for (const violation of featureListViolations) {
+          log(`Reverted feature_list.json change: ${violation.message}`);
+        }
+      }
 
-      if (!result.success) {
-        return {
+      if (!queryResult.success && abortController?.signal.aborted) {
+        // Stopped on purpose: nothing to hold against the feature
+        await this.settleFeature(contextBuilder, feature.id, 'pending');
+        outcome = 'interrupted';
+        const reason: unknown = abortController.signal.reason;
+        result = {
+          success: false,
+          featureId: feature.id,
+          error: reason instanceof Error ? reason.message : 'Session interrupted',
+          interrupted: true,
+        };
+      } else if (!queryResult.success) {
+        // A rate or usage limit says nothing about the feature: put it back in the queue
+        const limited = !!queryResult.usageLimit;
+        await this.settleFeature(contextBuilder, feature.id, limited ? 'pending' : 'failed');
+        outcome = limited ? 'limited' : 'error';
+        result = {
           success: false,
           featureId: feature.id,
-          error: result.error || 'Claude Agent SDK session failed',
-          progressEntry: `[${new Date().toISOString()}] [${feature.id}] ${feature.title} - ERROR`,
+          error: queryResult.error || 'Claude Agent SDK session failed',
+          usageLimit: queryResult.usageLimit,
+        };
+      } else {
+        // 5. Check if feature was marked as complete
+        // The agent should have set its status to "completed" in feature_list.json
+        const featureList = await contextBuilder.loadFeatureList();
+        const updatedFeature = featureList?.features.find(
+          (f) => f.id === feature.id
+        );
+        let success = updatedFeature?.status === 'completed';
+        if (!success) {
+          await this.settleFeature(contextBuilder, feature.id, 'failed');
+        }
+
+        // 6. Evaluate executable acceptance criteria (recorded even when incomplete)
+        const acceptance = await evaluateAcceptanceCriteria(workspacePath, feature, {
+          onProgress: log,
+          env: processTracker?.env,
+        }) ?? undefined;
+
+        // 7. Don't take the agent's word for it: run the verification commands
+        let verification: SessionResult['verification'];
+        let error: string | undefined;
+        if (success && verify) {
+          log('Running verification...');
+          verification = await runVerification(workspacePath, {
+            config: projectConfig,
+            onProgress: log,
+            env: processTracker?.env,
+          });
+
+          const problems: string[] = [];
+          if (!verification.passed) {
+            const failed = verification.results.filter((r) => !r.passed).map((r) => r.name);
+            problems.push(`Verification failed: ${failed.join(', ')}`);
+          }
+          if (acceptance && !acceptance.passed) {
+            problems.push(`Acceptance criteria met: ${acceptance.met}/${acceptance.total}`);
+          }
+
+          if (problems.length > 0) {
+            success = false;
+            await contextBuilder.setFeatureStatus(feature.id, 'failed');
+            error = problems.join('; ');
+            log(error);
+          }
+        }
+
+        // An agent without Bash can't commit its work; parallel runs commit when integrating
+        if (success && !integrate && !isToolAllowed(toolPolicy, 'Bash')) {
+          await this.commitWork(contextBuilder, feature, log);
+        }
+
+        // 8. Bring the work into the main checkout (parallel runs)
+        if (success && integrate) {
+          const integrationError = await integrate(feature, processTracker?.env);
+          if (integrationError) {
+            success = false;
+            error = integrationError;
+            log(error);
+          }
+        }
+        outcome = success ? 'completed' : 'failed';
+
+        // 9. Get commit hash if any
+        let commitHash: string | undefined;
+        try {
+          const { exec } = await import('node:child_process');
+          const { promisify } = await import('node:util');
+          const execAsync = promisify(exec);
+          const { stdout } = await execAsync('git rev-parse --short HEAD', {
+            cwd: workspacePath,
+          });
+          commitHash = stdout.trim();
+        } catch {
+          // No commit made
+        }
+
+        result = {
+          success,
+          featureId: feature.id,
+          commitHash,
+          error,
+          verification,
+          acceptance,
         };
       }
+    } catch (error) {
+      await this.settleFeature(contextBuilder, feature.id, 'failed');
+      outcome = 'error';
+      result = {
+        success: false,
+        featureId: feature.id,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
 
-      // 4. Check if feature was marked as complete
-      // The agent should have updated feature_list.json
-      const featureList = await contextBuilder.loadFeatureList();
-      const updatedFeature = featureList?.features.find(
-        (f) => f.id === feature.id
+    const transcript = recorder
+      ? await this.closeTranscript(stateRoot, recorder, transcriptConfig, log)
+      : undefined;
+
+    // Whatever the agent (or a timed out verification command) left running
+    if (processTracker) {
+      killedProcesses.push(...await this.killLeftovers(processTracker, log));
+    }
+
+    if (await contextBuilder.restoreProgressLog(progressLogSnapshot)) {
+      log('Reverted agent changes to progress.log');
+    }
+
+    // 10. Roll back the changes of a failed session (an interrupted one keeps them to be resumed)
+    const headCommit = await contextBuilder.getHeadCommit();
+    let rollbackRecord: RollbackRecord | undefined;
+    if (!result.success && !result.interrupted && rollback !== 'none') {
+      rollbackRecord = await this.rollback(workspacePath, {
+        policy: rollback,
+        attemptId: attempt.id,
+        fromCommit: attempt.commitRange.from,
+      }, startedDirty);
+      log(
+        rollbackRecord.skipped
+          ? `Rollback skipped: ${rollbackRecord.skipped}`
+          : `Rolled back to ${attempt.commitRange.from?.slice(0, 7)}${rollbackRecord.ref ? ` (changes saved in ${rollbackRecord.ref})` : ''}`
       );
-      const success = updatedFeature?.passes === true;
+    }
 
-      // 5. Get commit hash if any
-      let commitHash: string | undefined;
-      try {
-        const { exec } = await import('node:child_process');
-        const { promisify } = await import('node:util');
-        const execAsync = promisify(exec);
-        const { stdout } = await execAsync('git rev-parse --short HEAD', {
-          cwd: workspacePath,
-        });
-        commitHash = stdout.trim();
-      } catch {
-        // No commit made
+    // 11. Record the attempt
+    const finished = await attemptStore.finish(attempt.id, {
+      outcome,
+      numTurns: queryResult?.numTurns,
+      totalCostUsd: queryResult?.totalCostUsd,
+      usage: queryResult?.usage,
+      usageLimit: result.usageLimit,
+      error: result.error,
+      verification: result.verification,
+      acceptance: result.acceptance,
+      rollback: rollbackRecord,
+      featureListViolations: featureListViolations.length > 0 ? featureListViolations : undefined,
+      transcript,
+      killedProcesses: killedProcesses.length > 0 ? killedProcesses : undefined,
+      deniedToolCalls: deniedToolCalls.length > 0 ? deniedToolCalls : undefined,
+      commitRange: {
+        from: attempt.commitRange.from,
+        to: headCommit,
+      },
+    });
+
+    // 12. Append the session to progress.log
+    const progressEntry: ProgressEntry = {
+      timestamp: new Date().toISOString(),
+      featureId: feature.id,
+      title: feature.title,
+      outcome,
+      commit: headCommit !== attempt.commitRange.from ? headCommit : undefined,
+      durationMs: finished?.durationMs,
+      costUsd: queryResult?.totalCostUsd,
+      summary: result.error ?? extractSummary(queryResult?.output ?? ''),
+    };
+    const stateBuilder = stateRoot === workspacePath ? contextBuilder : new ContextBuilder(stateRoot);
+    await stateBuilder.appendToProgressLog(progressEntry);
+
+    return {
+      ...result,
+      progressEntry,
+      rollback: rollbackRecord,
+      featureListViolations: featureListViolations.length > 0 ? featureListViolations : undefined,
+      attemptId: attempt.id,
+      totalCostUsd: queryResult?.totalCostUsd,
+      numTurns: queryResult?.numTurns,
+      usage: queryResult?.usage,
+      transcript,
+      resumedFrom: resumeFrom?.id,
+      killedProcesses: killedProcesses.length > 0 ? killedProcesses : undefined,
+      deniedToolCalls: deniedToolCalls.length > 0 ? deniedToolCalls : undefined,
+    };
+  }
+
+  /**
+   * Settings from .harness/config.json and the user config; an invalid config only falls back
+   * to the defaults here, the commands that load it report it
+   */
+  private async loadConfig(
+    projectPath: string,
+    log: (msg: string) => void
+  ): Promise<HarnessProjectConfig> {
+    try {
+      return await loadProjectConfig(projectPath);
+    } catch (error) {
+      log(`Using default settings: ${error instanceof Error ? error.message : String(error)}`);
+      return {};
+    }
+  }
+
+  /**
+   * Commit the session's changes in the agent's place, with the message
+   * format its prompt asks for; failures are logged, never thrown
+   */
+  private async commitWork(
+    contextBuilder: ContextBuilder,
+    feature: Feature,
+    log: (msg: string) => void
+  ): Promise<void> {
+    const message = `${COMMIT_PREFIXES[feature.type ?? 'feature']}: ${feature.title} (${feature.id})`;
+    try {
+      if (await contextBuilder.commitChanges(message)) {
+        log(`Committed the session's changes: ${message}`);
       }
+    } catch (error) {
+      log(`Could not commit the session's changes: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      const progressEntry = success
-        ? `[${new Date().toISOString()}] [${feature.id}] ${feature.title} - COMPLETED`
-        : `[${new Date().toISOString()}] [${feature.id}] ${feature.title} - INCOMPLETE`;
+  /**
+   * Kill the listeners of the given ports; failures are logged, never thrown
+   */
+  private async freePorts(ports: number[], log: (msg: string) => void): Promise<KilledProcess[]> {
+    if (ports.length === 0) {
+      return [];
+    }
+    try {
+      const killed = await freePorts(ports);
+      for (const p of killed) {
+        log(`Freed port ${p.port}: killed ${p.pid} (${p.command})`);
+      }
+      return killed;
+    } catch (error) {
+      log(`Failed to free ports: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
 
-      return {
-        success,
-        featureId: feature.id,
-        commitHash,
-        progressEntry,
-      };
+  private async killLeftovers(tracker: ProcessTracker, log: (msg: string) => void): Promise<KilledProcess[]> {
+    try {
+      const killed = await tracker.killLeftovers();
+      for (const p of killed) {
+        log(`Killed leftover process ${p.pid}: ${p.command}`);
+      }
+      return killed;
+    } catch (error) {
+      log(`Failed to clean up processes: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Start recording the session; a transcript that can't be written never fails it
+   */
+  private async openTranscript(
+    projectPath: string,
+    attemptId: string,
+    config: NonNullable<HarnessProjectConfig['transcripts']>,
+    log: (msg: string) => void
+  ): Promise<TranscriptRecorder | null> {
+    if (config.enabled === false) {
+      return null;
+    }
+
+    const recorder = new TranscriptRecorder(projectPath, attemptId, { maxBytes: config.maxBytes });
+    try {
+      await recorder.open();
+      return recorder;
+    } catch (error) {
+      log(`Transcript disabled: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Flush the transcript and delete old ones beyond the configured age and size
+   */
+  private async closeTranscript(
+    projectPath: string,
+    recorder: TranscriptRecorder,
+    config: NonNullable<HarnessProjectConfig['transcripts']>,
+    log: (msg: string) => void
+  ): Promise<TranscriptRecord | undefined> {
+    try {
+      const transcript = await recorder.close();
+      if (transcript.dropped) {
+        log(`Transcript truncated: ${transcript.dropped} messages over the size limit were dropped`);
+      }
+
+      const removed = await cleanupTranscripts(projectPath, {
+        maxAgeDays: config.maxAgeDays,
+        maxTotalBytes: config.maxTotalBytes,
+        keep: recorder.path,
+      });
+      if (removed.length > 0) {
+        log(`Deleted ${removed.length} old transcript${removed.length === 1 ? '' : 's'}`);
+      }
+      return transcript;
+    } catch (error) {
+      log(`Failed to save transcript: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Diff feature_list.json against the pre-session snapshot and write back
+   * a repaired list if the agent touched anything but the target's status
+   */
+  private async guardFeatureList(
+    contextBuilder: ContextBuilder,
+    snapshot: FeatureList,
+    targetId: string
+  ): Promise<FeatureListViolation[]> {
+    const { violations, repaired } = guardFeatureList(
+      snapshot,
+      await contextBuilder.loadFeatureList(),
+      targetId
+    );
+    if (repaired) {
+      await contextBuilder.saveFeatureList(repaired);
+    }
+    return violations;
+  }
+
+  /**
+   * Apply the rollback policy; failures are recorded instead of thrown
+   */
+  private async rollback(
+    workspacePath: string,
+    options: RollbackOptions,
+    startedDirty: boolean
+  ): Promise<RollbackRecord> {
+    if (startedDirty) {
+      return { policy: options.policy, skipped: 'working tree had uncommitted changes before the session' };
+    }
+
+    try {
+      return await rollbackAttempt(workspacePath, options);
     } catch (error) {
       return {
-        success: false,
-        featureId: feature.id,
-        error: error instanceof Error ? error.message : String(error),
-        progressEntry: `[${new Date().toISOString()}] [${feature.id}] ${feature.title} - ERROR: ${error}`,
+        policy: options.policy,
+        skipped: `rollback failed: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
   }
+
+  /**
+   * Move a feature that is still in progress to failed (or back to pending).
+   * Statuses the agent set explicitly are left untouched.
+   */
+  private async settleFeature(
+    contextBuilder: ContextBuilder,
+    featureId: string,
+    status: 'failed' | 'pending'
+  ): Promise<void> {
+    try {
+      const featureList = await contextBuilder.loadFeatureList();
+      const feature = featureList?.features.find((f) => f.id === featureId);
+      if (feature?.status === 'in_progress') {
+        await contextBuilder.setFeatureStatus(featureId, status);
+      }
+    } catch {
+      // feature_list.json unreadable; nothing to record
+    }
+  }
 }
@@ -1,7 +1,17 @@
 import { join } from 'node:path';
 import chalk from 'chalk';
-import { runAgentQuery } from '../core/agent-sdk-client.js';
+import { isAcceptanceCriterion } from '../core/acceptance-checks.js';
+import { SdkAgentBackend, type AgentBackend } from '../core/agent-backend.js';
+import { buildMCPServers } from '../core/agent-sdk-client.js';
 import { ContextBuilder } from '../core/context-builder.js';
+import { getDependencies } from '../core/feature-graph.js';
+import {
+  isFeatureStatus,
+  migrateFeature,
+  type StoredFeature,
+} from '../core/feature-lifecycle.js';
+import { resolveToolPolicy, withToolRestrictions } from '../core/permission-policy.js';
+import { loadProjectConfig } from '../core/project-config.js';
 import {
   FEATURE_ADDER_SYSTEM_PROMPT,
   buildFeatureAdderContext,
@@ -32,9 +42,11 @@ export interface FeatureAdderResult {
 
 export class FeatureAdderAgent {
   private config: AgentConfig;
+  private backend: AgentBackend;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, backend: AgentBackend = new SdkAgentBackend()) {
     this.config = config;
+    this.backend = backend;
   }
 
   async addFeature(options: FeatureAdderOptions): Promise<FeatureAdderResult> {
@@ -74,6 +86,10 @@ export class FeatureAdderAgent {
       log('Analyzing project structure...');
       const projectStructure = await contextBuilder.getProjectStructure(3);
 
+      // Read-only by default: it only looks at the project to plan
+      const { permissions, sandbox, commands, mcpServers } = await loadProjectConfig(workspacePath);
+      const toolPolicy = resolveToolPolicy('feature-adder', permissions);
+
       // Build context for AI
       const existingFeaturesJson = JSON.stringify(
         featureList.features.map((f) => ({
@@ -94,7 +110,7 @@ export class FeatureAdderAgent {
       );
 
       log('Generating feature with AI...');
-      console.log(chalk.cyan('[DEBUG] About to call runAgentQuery...'));
+      console.log(chalk.cyan('[DEBUG] About to call the agent backend...'));
       console.log(chalk.gray('  maxTurns: 15'));
       console.log(chalk.gray('  workingDirectory:'), workspacePath);
 
@@ -110,16 +126,21 @@ export class FeatureAdderAgent {
       };
 
       // Call AI to generate feature
-      console.log(chalk.cyan('[DEBUG] Calling runAgentQuery now...'));
-      const result = await runAgentQuery({
+      console.log(chalk.cyan('[DEBUG] Calling the agent backend now...'));
+      const result = await this.backend.runQuery({
         prompt: userMessage,
-        systemPrompt: FEATURE_ADDER_SYSTEM_PROMPT,
+        systemPrompt: withToolRestrictions(FEATURE_ADDER_SYSTEM_PROMPT, toolPolicy),
         workingDirectory: workspacePath,
+        model: this.config.model,
         maxTurns: 15, // More turns to allow complete generation
+        mcpServers: buildMCPServers({ servers: mcpServers }),
         onText: collectOutput,
+        toolPolicy,
+        sandbox,
+        commandPolicy: commands,
       });
 
-      console.log(chalk.cyan('[DEBUG] runAgentQuery returned!'));
+      console.log(chalk.cyan('[DEBUG] Agent backend returned!'));
       console.log(chalk.gray('  success:'), result.success);
       console.log(chalk.gray('  hasOutput:'), !!result.output);
       console.log(chalk.gray('  outputLength:'), result.output?.length || 0);
@@ -163,16 +184,16 @@ ${result.output || '(empty)'}
       console.log(chalk.gray('  First 200 chars:'), result.output.substring(0, 200));
 
       // Parse the feature from output
-      const feature = this.parseFeature(result.output);
+      const parsedFeature = this.parseFeature(result.output);
 
       console.log(chalk.cyan('[DEBUG] Parsing result:'));
-      console.log(chalk.gray('  feature found:'), !!feature);
-      if (feature) {
-        console.log(chalk.gray('  feature.id:'), feature.id);
-        console.log(chalk.gray('  feature.title:'), feature.title);
+      console.log(chalk.gray('  feature found:'), !!parsedFeature);
+      if (parsedFeature) {
+        console.log(chalk.gray('  feature.id:'), parsedFeature.id);
+        console.log(chalk.gray('  feature.title:'), parsedFeature.title);
       }
 
-      if (!feature) {
+      if (!parsedFeature) {
         console.log(chalk.red('[DEBUG] Failed to parse feature from output'));
         // Always save output to a temp file for debugging
         const { writeFile } = await import('node:fs/promises');
@@ -196,13 +217,17 @@ ${result.output || '(empty)'}
       }
 
       // Validate feature
-      if (!this.validateFeature(feature)) {
+      if (!this.validateFeature(parsedFeature)) {
         return {
           success: false,
           error: 'Generated feature is invalid or incomplete',
         };
       }
 
+      // New features always start pending, whatever the model wrote
+      const { feature } = migrateFeature(parsedFeature);
+      feature.status = 'pending';
+
       // Check for duplicate ID
       if (featureList.features.some((f) => f.id === feature.id)) {
         return {
@@ -211,6 +236,18 @@ ${result.output || '(empty)'}
         };
       }
 
+      // Dependencies must point at features that already exist
+      const existingIds = new Set(featureList.features.map((f) => f.id));
+      const unknownDependencies = getDependencies(feature).filter(
+        (id) => !existingIds.has(id)
+      );
+      if (unknownDependencies.length > 0) {
+        return {
+          success: false,
+          error: `Feature ${feature.id} depends on unknown feature(s): ${unknownDependencies.join(', ')}`,
+        };
+      }
+
       log('Adding feature to feature_list.json...');
 
       // Add feature to list
@@ -237,12 +274,12 @@ ${result.output || '(empty)'}
     }
   }
 
-  private parseFeature(output: string): Feature | null {
+  private parseFeature(output: string): StoredFeature | null {
     // Strategy 1: Try to parse directly
     try {
       const feature = JSON.parse(output.trim());
       if (this.validateFeature(feature)) {
-        return feature as Feature;
+        return feature as StoredFeature;
       }
     } catch {
       // Continue to next strategy
@@ -254,7 +291,7 @@ ${result.output || '(empty)'}
       try {
         const feature = JSON.parse(jsonMatch[1].trim());
         if (this.validateFeature(feature)) {
-          return feature as Feature;
+          return feature as StoredFeature;
         }
       } catch {
         // Continue
@@ -286,7 +323,7 @@ ${result.output || '(empty)'}
       try {
         const feature = JSON.parse(jsonStr);
         if (this.validateFeature(feature)) {
-          return feature as Feature;
+          return feature as StoredFeature;
         }
       } catch {
         // Continue
@@ -326,7 +363,7 @@ ${result.output || '(empty)'}
       try {
         const feature = JSON.parse(jsonStr);
         if (this.validateFeature(feature)) {
-          return feature as Feature;
+          return feature as StoredFeature;
         }
       } catch {
         // Continue
@@ -341,7 +378,7 @@ ${result.output || '(empty)'}
         try {
           const feature = JSON.parse(match);
           if (this.validateFeature(feature)) {
-            return feature as Feature;
+            return feature as StoredFeature;
           }
         } catch {
           // Try next match
@@ -352,7 +389,7 @@ ${result.output || '(empty)'}
     return null;
   }
 
-  private validateFeature(feature: Feature): boolean {
+  private validateFeature(feature: StoredFeature): boolean {
     return !!(
       feature.id &&
       feature.title &&
@@ -360,7 +397,11 @@ ${result.output || '(empty)'}
       feature.acceptance_criteria &&
       Array.isArray(feature.acceptance_criteria) &&
       feature.acceptance_criteria.length > 0 &&
-      typeof feature.passes === 'boolean'
+      feature.acceptance_criteria.every(isAcceptanceCriterion) &&
+      (isFeatureStatus(feature.status) || typeof feature.passes === 'boolean') &&
+      (feature.depends_on === undefined ||
+        (Array.isArray(feature.depends_on) &&
+          feature.depends_on.every((id) => typeof id === 'string')))
     );
   }
 }
@@ -1,11 +1,25 @@
 import { join } from 'node:path';
 import chalk from 'chalk';
-import { runAgentQuery } from '../core/agent-sdk-client.js';
+import { isAcceptanceCriterion } from '../core/acceptance-checks.js';
+import { SdkAgentBackend, type AgentBackend } from '../core/agent-backend.js';
+import { buildMCPServers } from '../core/agent-sdk-client.js';
 import { ContextBuilder } from '../core/context-builder.js';
+import {
+  analyzeDependencies,
+  describeDependencyIssues,
+} from '../core/feature-graph.js';
+import {
+  isFeatureStatus,
+  migrateFeature,
+  type StoredFeature,
+} from '../core/feature-lifecycle.js';
+import { resolveToolPolicy, withToolRestrictions } from '../core/permission-policy.js';
+import { loadProjectConfig, type HarnessProjectConfig } from '../core/project-config.js';
 import {
   FEATURE_ATOMIZER_SYSTEM_PROMPT,
   buildFeatureAtomizerContext,
 } from '../prompts/feature-atomizer.js';
+import type { FeatureListLock } from './parallel-runner.js';
 import type {
   AgentConfig,
   Feature,
@@ -21,6 +35,10 @@ export interface FeatureAtomizerOptions {
   target?: TargetType | undefined;
   onOutput?: ((text: string) => void) | undefined;
   onProgress?: ((message: string) => void) | undefined;
+  /** Settings loaded when the run started (default: read from the project) */
+  projectConfig?: HarnessProjectConfig | undefined;
+  /** Serializes the final update of feature_list.json with other writers (parallel loops) */
+  withFeatureList?: FeatureListLock | undefined;
 }
 
 export interface FeatureAtomizerResult {
@@ -31,9 +49,11 @@ export interface FeatureAtomizerResult {
 
 export class FeatureAtomizerAgent {
   private config: AgentConfig;
+  private backend: AgentBackend;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, backend: AgentBackend = new SdkAgentBackend()) {
     this.config = config;
+    this.backend = backend;
   }
 
   async atomizeFeature(
@@ -69,6 +89,11 @@ export class FeatureAtomizerAgent {
       log('Analyzing project structure...');
       const projectStructure = await contextBuilder.getProjectStructure(3);
 
+      // Read-only by default: it only looks at the project to plan
+      const { permissions, sandbox, commands, mcpServers } =
+        options.projectConfig ?? await loadProjectConfig(workspacePath);
+      const toolPolicy = resolveToolPolicy('atomizer', permissions);
+
       // Build context for AI
       const existingFeaturesJson = JSON.stringify(
         featureList.features.map((f) => ({
@@ -89,7 +114,7 @@ export class FeatureAtomizerAgent {
       );
 
       log('Atomizing feature with AI...');
-      console.log(chalk.cyan('[DEBUG] About to call runAgentQuery...'));
+      console.log(chalk.cyan('[DEBUG] About to call the agent backend...'));
       console.log(chalk.gray('  maxTurns: 20'));
 
       // Suppress streaming output
@@ -102,16 +127,21 @@ export class FeatureAtomizerAgent {
       };
 
       // Call AI to atomize feature
-      console.log(chalk.cyan('[DEBUG] Calling runAgentQuery now...'));
-      const result = await runAgentQuery({
+      console.log(chalk.cyan('[DEBUG] Calling the agent backend now...'));
+      const result = await this.backend.runQuery({
         prompt: userMessage,
-        systemPrompt: FEATURE_ATOMIZER_SYSTEM_PROMPT,
+        systemPrompt: withToolRestrictions(FEATURE_ATOMIZER_SYSTEM_PROMPT, toolPolicy),
         workingDirectory: workspacePath,
+        model: this.config.model,
         maxTurns: 20,
+        mcpServers: buildMCPServers({ servers: mcpServers }),
         onText: collectOutput,
+        toolPolicy,
+        sandbox,
+        commandPolicy: commands,
       });
 
-      console.log(chalk.cyan('[DEBUG] runAgentQuery returned!'));
+      console.log(chalk.cyan('[DEBUG] Agent backend returned!'));
       console.log(chalk.gray('  success:'), result.success);
       console.log(chalk.gray('  hasOutput:'), !!result.output);
       console.log(chalk.gray('  outputLength:'), result.output?.length || 0);
@@ -155,16 +185,16 @@ ${result.output || '(empty)'}
       console.log(chalk.gray('  First 300 chars:'), result.output.substring(0, 300));
 
       // Parse the features array from output
-      const features = this.parseFeatures(result.output);
+      const parsedFeatures = this.parseFeatures(result.output);
 
       console.log(chalk.cyan('[DEBUG] Parsing result:'));
-      console.log(chalk.gray('  features found:'), features?.length || 0);
-      if (features && features.length > 0) {
-        console.log(chalk.gray('  first feature.id:'), features[0]?.id);
-        console.log(chalk.gray('  last feature.id:'), features[features.length - 1]?.id);
+      console.log(chalk.gray('  features found:'), parsedFeatures?.length || 0);
+      if (parsedFeatures && parsedFeatures.length > 0) {
+        console.log(chalk.gray('  first feature.id:'), parsedFeatures[0]?.id);
+        console.log(chalk.gray('  last feature.id:'), parsedFeatures[parsedFeatures.length - 1]?.id);
       }
 
-      if (!features || features.length === 0) {
+      if (!parsedFeatures || parsedFeatures.length === 0) {
         console.log(chalk.red('[DEBUG] Failed to parse features array'));
         return {
           success: false,
@@ -174,7 +204,7 @@ ${result.output || '(empty)'}
 
       // Validate all features
       log('Validating atomized features...');
-      const invalidFeatures = features.filter((f) => !this.validateFeature(f));
+      const invalidFeatures = parsedFeatures.filter((f) => !this.validateFeature(f));
       if (invalidFeatures.length > 0) {
         console.log(chalk.red('[DEBUG] Invalid features found:'), invalidFeatures.length);
         return {
@@ -183,6 +213,12 @@ ${result.output || '(empty)'}
         };
       }
 
+      // New features always start pending, whatever the model wrote
+      const features: Feature[] = parsedFeatures.map((f) => ({
+        ...migrateFeature(f).feature,
+        status: 'pending',
+      }));
+
       // Check for duplicate IDs
       const existingIds = new Set(featureList.features.map((f) => f.id));
       const duplicates = features.filter((f) => existingIds.has(f.id));
@@ -194,14 +230,27 @@ ${result.output || '(empty)'}
         };
       }
 
+      // Dependencies may point at existing features or at siblings in this batch
+      const dependencyReport = analyzeDependencies([...featureList.features, ...features]);
+      const dependencyIssues = describeDependencyIssues(dependencyReport);
+      if (dependencyIssues.length > 0) {
+        console.log(chalk.red('[DEBUG] Invalid dependencies found:'), dependencyIssues);
+        return {
+          success: false,
+          error: `Invalid feature dependencies: ${dependencyIssues.join('; ')}`,
+        };
+      }
+
       log(`Adding ${features.length} features to feature_list.json...`);
       console.log(chalk.cyan(`[DEBUG] Adding ${features.length} features to list`));
 
-      // Add all features to list
-      featureList.features.push(...features);
-
-      // Save updated feature list
-      await contextBuilder.saveFeatureList(featureList);
+      // Add all features to the list as it is now: parallel sessions may have updated it meanwhile
+      const addFeatures = async () => {
+        const current = (await contextBuilder.loadFeatureList()) ?? featureList;
+        current.features.push(...features);
+        await contextBuilder.saveFeatureList(current);
+      };
+      await (options.withFeatureList ? options.withFeatureList(addFeatures) : addFeatures());
 
       log(`Successfully added ${features.length} atomic features!`);
       console.log(chalk.green(`[DEBUG] Successfully added ${features.length} features`));
@@ -225,12 +274,12 @@ ${result.output || '(empty)'}
     }
   }
 
-  private parseFeatures(output: string): Feature[] | null {
+  private parseFeatures(output: string): StoredFeature[] | null {
     // Strategy 1: Try to parse directly as array
     try {
       const features = JSON.parse(output.trim());
       if (Array.isArray(features) && features.every((f) => this.validateFeature(f))) {
-        return features as Feature[];
+        return features as StoredFeature[];
       }
     } catch {
       // Continue to next strategy
@@ -242,7 +291,7 @@ ${result.output || '(empty)'}
       try {
         const features = JSON.parse(jsonMatch[1].trim());
         if (Array.isArray(features) && features.every((f) => this.validateFeature(f))) {
-          return features as Feature[];
+          return features as StoredFeature[];
         }
       } catch {
         // Continue
@@ -271,7 +320,7 @@ ${result.output || '(empty)'}
         try {
           const features = JSON.parse(jsonStr);
           if (Array.isArray(features) && features.every((f) => this.validateFeature(f))) {
-            return features as Feature[];
+            return features as StoredFeature[];
           }
         } catch {
           // Continue
@@ -286,7 +335,7 @@ ${result.output || '(empty)'}
       try {
         const features = JSON.parse(arrayMatch[0]);
         if (Array.isArray(features) && features.every((f) => this.validateFeature(f))) {
-          return features as Feature[];
+          return features as StoredFeature[];
         }
       } catch {
         // Failed
@@ -306,7 +355,11 @@ ${result.output || '(empty)'}
       feature.acceptance_criteria &&
       Array.isArray(feature.acceptance_criteria) &&
       feature.acceptance_criteria.length > 0 &&
-      typeof feature.passes === 'boolean'
+      feature.acceptance_criteria.every(isAcceptanceCriterion) &&
+      (isFeatureStatus(feature.status) || typeof feature.passes === 'boolean') &&
+      (feature.depends_on === undefined ||
+        (Array.isArray(feature.depends_on) &&
+          feature.depends_on.every((id: unknown) => typeof id === 'string')))
     );
   }
 }
@@ -1,8 +1,15 @@
 import { mkdir, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { existsSync } from 'node:fs';
-import { runAgentQuery, buildMCPServers } from '../core/agent-sdk-client.js';
+import { SdkAgentBackend, type AgentBackend } from '../core/agent-backend.js';
+import type { AgentQueryOptions } from '../core/agent-sdk-client.js';
 import { ContextBuilder } from '../core/context-builder.js';
+import {
+  analyzeDependencies,
+  describeDependencyIssues,
+} from '../core/feature-graph.js';
+import { migrateFeature } from '../core/feature-lifecycle.js';
+import { resolveToolPolicy, withToolRestrictions } from '../core/permission-policy.js';
 import {
   INITIALIZER_SYSTEM_PROMPT,
   buildInitializerPrompt,
@@ -29,9 +36,11 @@ export interface InitializerResult {
 
 export class InitializerAgent {
   private config: AgentConfig;
+  private backend: AgentBackend;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, backend: AgentBackend = new SdkAgentBackend()) {
     this.config = config;
+    this.backend = backend;
   }
 
   async initialize(options: InitializerOptions): Promise<InitializerResult> {
@@ -59,17 +68,21 @@ export class InitializerAgent {
       log('Generating feature list via Claude Agent SDK...');
       const userMessage = buildInitializerPrompt(description, techStack);
 
-      const queryOptions: Parameters<typeof runAgentQuery>[0] = {
+      // The project has no config yet: the default (read-only) policy applies
+      const toolPolicy = resolveToolPolicy('initializer');
+      const queryOptions: AgentQueryOptions = {
         prompt: userMessage,
-        systemPrompt: INITIALIZER_SYSTEM_PROMPT,
+        systemPrompt: withToolRestrictions(INITIALIZER_SYSTEM_PROMPT, toolPolicy),
         workingDirectory: projectPath,
+        model: this.config.model,
         maxTurns: 10,
         // Initializer doesn't need MCPs, pass empty to avoid starting them
         mcpServers: {},
+        toolPolicy,
       };
       if (onOutput) queryOptions.onText = onOutput;
 
-      const result = await runAgentQuery(queryOptions);
+      const result = await this.backend.runQuery(queryOptions);
 
       if (!result.success) {
         return {
@@ -92,6 +105,21 @@ export class InitializerAgent {
       // Ensure project name matches
       featureList.project_name = projectName;
 
+      // Every generated feature starts pending (accepts legacy `passes` output)
+      featureList.features = featureList.features.map((f) => ({
+        ...migrateFeature(f).feature,
+        status: 'pending',
+      }));
+
+      // Dependency problems don't abort init, but the scheduler will keep
+      // the affected features blocked until feature_list.json is fixed
+      const dependencyIssues = describeDependencyIssues(
+        analyzeDependencies(featureList.features)
+      );
+      for (const issue of dependencyIssues) {
+        log(`Warning: ${issue}`);
+      }
+
       // 4. Write feature_list.json
       log('Writing feature_list.json...');
       const featureListPath = join(projectPath, 'feature_list.json');
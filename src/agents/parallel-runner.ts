@@ -0,0 +1,379 @@
+import { SdkAgentBackend, type AgentBackend } from '../core/agent-backend.js';
+import { ContextBuilder } from '../core/context-builder.js';
+import { isFeatureReady } from '../core/feature-graph.js';
+import { isSchedulable } from '../core/feature-lifecycle.js';
+import {
+  createWorktree,
+  finalizeWorktree,
+  mergeWorktreeBranch,
+  removeWorktree,
+  undoMerge,
+  type Worktree,
+} from '../core/worktree.js';
+import { runVerification } from '../core/verification.js';
+import { CodingAgent, type CodingAgentOptions } from './coding-agent.js';
+import type {
+  AgentConfig,
+  Feature,
+  FeatureType,
+  SessionResult,
+} from '../types/index.js';
+
+export interface ParallelRunnerOptions {
+  projectPath: string;
+  /** Number of sessions running at the same time */
+  concurrency: number;
+  maxSessions: number;
+  /** Only schedule features of this type */
+  featureType?: FeatureType | undefined;
+  /**
+   * When a feature may be dispatched (epoch ms), e.g. once a failed one's
+   * retry delay is over. Later features are passed over until then.
+   */
+  getRetryAt?: ((feature: Feature) => number) | undefined;
+  /** Passed to every session */
+  session?: ParallelSessionOptions | undefined;
+  /**
+   * Called before a feature is dispatched, with the number of sessions
+   * already running. It may wait: the feature list isn't locked meanwhile,
+   * so changes to it go through withFeatureList. Return options for this
+   * session, 'skip' to leave the feature out of this run, or 'stop' to stop
+   * scheduling.
+   */
+  beforeSession?:
+    | ((
+        feature: Feature,
+        running: number,
+        withFeatureList: FeatureListLock
+      ) => Promise<SessionPlan> | SessionPlan)
+    | undefined;
+  onSessionStart?: ((feature: Feature, session: number, worktree: Worktree) => void) | undefined;
+  onProgress?: ((feature: Feature, message: string) => void) | undefined;
+  /**
+   * Called when a session is over and its status is saved. The feature list
+   * isn't locked, so an escalation or a pause doesn't hold up the other
+   * sessions; changes to the list go through withFeatureList. The feature
+   * counts as running until it returns. Return false to stop scheduling.
+   */
+  onSessionEnd?:
+    | ((
+        feature: Feature,
+        result: SessionResult,
+        session: number,
+        withFeatureList: FeatureListLock
+      ) => Promise<boolean> | boolean)
+    | undefined;
+}
+
+/**
+ * Runs a read-modify-write of the main feature_list.json once the ones
+ * queued before it are done
+ */
+export type FeatureListLock = <T>(task: () => Promise<T>) => Promise<T>;
+
+export type ParallelSessionOptions = Pick<
+  CodingAgentOptions,
+  | 'maxTurns'
+  | 'maxBudgetUsd'
+  | 'supabaseProjectRef'
+  | 'verify'
+  | 'resume'
+  | 'abortController'
+  | 'projectConfig'
+>;
+
+export type SessionPlan = ParallelSessionOptions | 'skip' | 'stop';
+
+export interface ParallelRunSummary {
+  sessions: number;
+  /** idle: no ready feature left; stopped: a callback asked to stop */
+  stoppedReason: 'idle' | 'max_sessions' | 'stopped';
+}
+
+/**
+ * Run coding sessions concurrently, each in its own git worktree and branch.
+ *
+ * The main checkout keeps the authoritative feature_list.json: features are
+ * marked in_progress when dispatched and completed or failed once their
+ * session ends (pending again after a usage limit or an interruption), with every update
+ * serialized. A successful branch is merged into the main checkout in
+ * dispatch order; a conflicting merge is aborted and fails the attempt, and
+ * so does a merge that fails verification there (it is undone).
+ */
+export class ParallelRunner {
+  private config: AgentConfig;
+  private backend: AgentBackend;
+
+  constructor(config: AgentConfig, backend: AgentBackend = new SdkAgentBackend()) {
+    this.config = config;
+    this.backend = backend;
+  }
+
+  async run(options: ParallelRunnerOptions): Promise<ParallelRunSummary> {
+    const { projectPath, concurrency, maxSessions, featureType } = options;
+    const contextBuilder = new ContextBuilder(projectPath);
+
+    const running = new Map<string, Promise<void>>();
+    const skipped = new Set<string>();
+    let sessions = 0;
+    let stopped = false;
+    let dispatchError: unknown;
+
+    // Every read-modify-write of the main feature_list.json goes through this chain
+    let featureListLock: Promise<unknown> = Promise.resolve();
+    const withFeatureList: FeatureListLock = <T>(task: () => Promise<T>): Promise<T> => {
+      const next = featureListLock.then(task);
+      featureListLock = next.catch(() => undefined);
+      return next;
+    };
+
+    // Each session may merge once every session dispatched before it has merged or failed
+    let mergeQueue: Promise<unknown> = Promise.resolve();
+
+    for (;;) {
+      // Set when the only ready features are waiting for their retry delay
+      let retryAt: number | undefined;
+
+      while (!stopped && running.size < concurrency && sessions < maxSessions) {
+        let dispatched: { feature: Feature; worktree: Worktree; plan: ParallelSessionOptions } | 'skip';
+        try {
+          const pick = await withFeatureList(() =>
+            this.pickFeature(contextBuilder, featureType, running, skipped, options.getRetryAt)
+          );
+          retryAt = pick.retryAt;
+          const { feature } = pick;
+          if (!feature) break;
+
+          const plan = (await options.beforeSession?.(feature, running.size, withFeatureList)) ?? {};
+          if (plan === 'stop') {
+            stopped = true;
+            break;
+          }
+          if (plan === 'skip') {
+            skipped.add(feature.id);
+            continue;
+          }
+
+          dispatched = await withFeatureList(async () => {
+            // The list may have changed while beforeSession waited
+            const current = await contextBuilder.getFeature(feature.id);
+            if (!current || !isSchedulable(current)) return 'skip';
+
+            const worktree = await createWorktree(projectPath, feature.id);
+            await contextBuilder.setFeatureStatus(feature.id, 'in_progress');
+            return { feature: current, worktree, plan };
+          });
+        } catch (error) {
+          // Let the running sessions finish, then report
+          dispatchError = error;
+          stopped = true;
+          break;
+        }
+        if (dispatched === 'skip') continue;
+
+        sessions++;
+        const { feature, worktree, plan } = dispatched;
+        const session = sessions;
+
+        const mergeTurn = mergeQueue;
+        let settle!: () => void;
+        mergeQueue = Promise.all([mergeTurn, new Promise<void>((resolve) => { settle = resolve; })]);
+
+        options.onSessionStart?.(feature, session, worktree);
+
+        const job = (async () => {
+          const result = await this.runSession(options, plan, feature, worktree, async (env) => {
+            await mergeTurn;
+            return this.merge(options, plan, feature, worktree, env, withFeatureList);
+          }).finally(settle);
+
+          await withFeatureList(() =>
+            contextBuilder.setFeatureStatus(
+              feature.id,
+              result.success ? 'completed' : result.usageLimit || result.interrupted ? 'pending' : 'failed'
+            )
+          );
+          if (await options.onSessionEnd?.(feature, result, session, withFeatureList) === false) {
+            stopped = true;
+          }
+
+          // A failed branch is kept for inspection until the next attempt
+          await removeWorktree(projectPath, worktree, { deleteBranch: result.success });
+        })()
+          .catch((error) => {
+            dispatchError ??= error;
+            stopped = true;
+          })
+          .finally(() => running.delete(feature.id));
+
+        running.set(feature.id, job);
+      }
+
+      const signal = options.session?.abortController?.signal;
+      const waitForRetry = stopped || signal?.aborted || sessions >= maxSessions ? undefined : retryAt;
+      if (running.size === 0 && waitForRetry === undefined) break;
+      const retryWait = waitForRetry === undefined ? undefined : sleepUntil(waitForRetry, signal);
+      await Promise.race([...running.values(), ...(retryWait ? [retryWait.done] : [])]);
+      retryWait?.cancel();
+    }
+
+    if (dispatchError) {
+      throw dispatchError;
+    }
+
+    return {
+      sessions,
+      stoppedReason: stopped ? 'stopped' : sessions >= maxSessions ? 'max_sessions' : 'idle',
+    };
+  }
+
+  /**
+   * Next ready feature that isn't already running. Without one, retryAt is
+   * the earliest time a feature passed over for its retry delay may run.
+   */
+  private async pickFeature(
+    contextBuilder: ContextBuilder,
+    featureType: FeatureType | undefined,
+    running: Map<string, unknown>,
+    skipped: Set<string>,
+    getRetryAt: ((feature: Feature) => number) | undefined
+  ): Promise<{ feature: Feature | null; retryAt?: number | undefined }> {
+    const featureList = await contextBuilder.loadFeatureList();
+    if (!featureList) {
+      return { feature: null };
+    }
+
+    const { features } = featureList;
+    const ready = features.filter(
+      (f) =>
+        !running.has(f.id) &&
+        !skipped.has(f.id) &&
+        isSchedulable(f) &&
+        (!featureType || f.type === featureType || (!f.type && featureType === 'feature')) &&
+        isFeatureReady(f, features)
+    );
+
+    const now = Date.now();
+    const retryTimes = ready.map((f) => getRetryAt?.(f) ?? 0);
+    const index = retryTimes.findIndex((time) => time <= now);
+    if (index !== -1) {
+      return { feature: ready[index] ?? null };
+    }
+    return { feature: null, retryAt: ready.length > 0 ? Math.min(...retryTimes) : undefined };
+  }
+
+  private async runSession(
+    options: ParallelRunnerOptions,
+    plan: ParallelSessionOptions,
+    feature: Feature,
+    worktree: Worktree,
+    integrate: (env: Record<string, string> | undefined) => Promise<string | undefined>
+  ): Promise<SessionResult> {
+    const agent = new CodingAgent(this.config, this.backend);
+    try {
+      return await agent.runSession({
+        ...options.session,
+        ...plan,
+        workspacePath: worktree.path,
+        featureId: feature.id,
+        stateRoot: options.projectPath,
+        // The worktree is thrown away, so there is nothing to roll back
+        rollback: 'none',
+        // Ports are shared by every session: the caller frees them once before the run
+        freePorts: [],
+        integrate: (_feature, env) => integrate(env),
+        onProgress: (message) => options.onProgress?.(feature, message),
+      });
+    } catch (error) {
+      return {
+        success: false,
+        featureId: feature.id,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Commit what the agent left behind and merge the branch into the main
+   * checkout. Unless verification is off, it runs again on the merged result
+   * (the main checkout may have moved since the worktree was created) and a
+   * failing merge is undone. The feature list stays locked from the merge to
+   * the undo: git rewrites the main checkout meanwhile, feature_list.json
+   * included.
+   */
+  private async merge(
+    options: ParallelRunnerOptions,
+    plan: ParallelSessionOptions,
+    feature: Feature,
+    worktree: Worktree,
+    env: Record<string, string> | undefined,
+    withFeatureList: FeatureListLock
+  ): Promise<string | undefined> {
+    await finalizeWorktree(worktree, `harness: leftover changes for ${feature.id}`);
+    return withFeatureList(() => this.mergeAndVerify(options, plan, feature, worktree, env));
+  }
+
+  private async mergeAndVerify(
+    options: ParallelRunnerOptions,
+    plan: ParallelSessionOptions,
+    feature: Feature,
+    worktree: Worktree,
+    env: Record<string, string> | undefined
+  ): Promise<string | undefined> {
+    const { projectPath } = options;
+    const merge = await mergeWorktreeBranch(
+      projectPath,
+      worktree.branch,
+      `Merge ${feature.id}: ${feature.title}`
+    );
+
+    if (!merge.merged) {
+      return merge.conflicts.length > 0
+        ? `Merge conflict in ${merge.conflicts.join(', ')}`
+        : `Merge failed: ${merge.error ?? 'unknown error'}`;
+    }
+    if ((plan.verify ?? options.session?.verify) === false) {
+      return undefined;
+    }
+
+    options.onProgress?.(feature, 'Verifying the merge in the main checkout...');
+    const verification = await runVerification(projectPath, {
+      config: plan.projectConfig ?? options.session?.projectConfig,
+      env,
+      onProgress: (message) => options.onProgress?.(feature, message),
+    });
+    if (verification.passed) {
+      return undefined;
+    }
+
+    const failed = verification.results.filter((r) => !r.passed).map((r) => r.name);
+    const problem = `Verification failed after merging into the main checkout: ${failed.join(', ')}`;
+    try {
+      await undoMerge(projectPath);
+    } catch (error) {
+      return `${problem}; the merge could not be undone: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return `${problem}; merge undone`;
+  }
+}
+
+/**
+ * Resolves at the given time (epoch ms), as soon as the signal aborts, or
+ * when cancelled (so a pending timer doesn't keep the process alive)
+ */
+function sleepUntil(
+  time: number,
+  signal: AbortSignal | undefined
+): { done: Promise<void>; cancel: () => void } {
+  let cancel = () => {};
+  const done = new Promise<void>((resolve) => {
+    const timer = setTimeout(() => cancel(), Math.max(0, time - Date.now()));
+    cancel = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+  return { done, cancel };
+}
@@ -9,15 +9,102 @@ import ora from 'ora';
 import { createInterface } from 'node:readline';
 import { join, resolve } from 'node:path';
 import { existsSync } from 'node:fs';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import { InitializerAgent } from './agents/initializer.js';
 import { CodingAgent } from './agents/coding-agent.js';
 import { FeatureAdderAgent } from './agents/feature-adder.js';
 import { FeatureAtomizerAgent } from './agents/feature-atomizer.js';
+import { ParallelRunner, type FeatureListLock } from './agents/parallel-runner.js';
 import { ContextBuilder } from './core/context-builder.js';
+import {
+  analyzeDependencies,
+  getBlockedFeatures,
+  getUnmetDependencies,
+  replaceDependency,
+} from './core/feature-graph.js';
+import {
+  FEATURE_STATUSES,
+  canTransition,
+  isCompleted,
+  isFeatureStatus,
+  isSchedulable,
+} from './core/feature-lifecycle.js';
 import { isAuthConfigured, getAuthMethod } from './core/agent-sdk-client.js';
-import { DEFAULT_AGENT_CONFIG, type FeatureType, type FeatureList, type TargetType } from './types/index.js';
-import { createOutputFormatter } from './core/output-formatter.js';
-import { getEmailNotifier, isEmailConfigured } from './core/email-notifier.js';
+import {
+  AGENT_BACKENDS,
+  ClaudeCodeBackend,
+  SdkAgentBackend,
+  isAgentBackendName,
+  type AgentBackend,
+} from './core/agent-backend.js';
+import { ScriptedAgentBackend } from './core/scripted-backend.js';
+import { isClaudeCodeAvailable, isInsideClaudeSession } from './core/claude-code-client.js';
+import {
+  DEFAULT_AGENT_CONFIG,
+  type AcceptanceReport,
+  type AgentConfig,
+  type AttemptOutcome,
+  type BudgetLimits,
+  type Feature,
+  type FeatureStatus,
+  type FeatureType,
+  type FeatureList,
+  type KilledProcess,
+  type RollbackPolicy,
+  type RollbackRecord,
+  type StuckAction,
+  type StuckEscalation,
+  type TargetType,
+  type TokenUsage,
+  type ToolDenial,
+  type TranscriptRecord,
+  type UsageLimit,
+} from './types/index.js';
+import { createOutputFormatter, type MessageFilter } from './core/output-formatter.js';
+import { readTranscript } from './core/transcript.js';
+import {
+  formatDuration,
+  getEmailNotifier,
+  isEmailConfigured,
+  type LoopCompletionData,
+} from './core/email-notifier.js';
+import { AttemptStore } from './core/attempt-store.js';
+import { freePorts } from './core/process-cleanup.js';
+import { hasCommandRules } from './core/command-policy.js';
+import { isPort, type HarnessProjectConfig } from './core/project-config.js';
+import {
+  DEFAULT_SETTINGS,
+  SETTING_ENV_VARS,
+  listSettings,
+  resolveSettings,
+  type HarnessSettings,
+  type ResolvedSettings,
+  type SettingSource,
+} from './core/settings.js';
+import { ShutdownHandler } from './core/shutdown.js';
+import { Supervisor } from './core/supervisor.js';
+import { ROLLBACK_POLICIES, hasUncommittedChanges, isRollbackPolicy } from './core/rollback.js';
+import {
+  formatActiveHours,
+  getMsUntilActiveHours,
+  parseActiveHours,
+  type ActiveHours,
+} from './core/active-hours.js';
+import { FREE_LIMIT_HITS, getUsageLimitDelay } from './core/usage-limits.js';
+import {
+  BudgetTracker,
+  formatTokens,
+  getTotalTokens,
+  summarizeUsage,
+} from './core/budget.js';
+import {
+  AttemptTracker,
+  DEFAULT_RETRY_POLICY,
+  STUCK_ACTIONS,
+  isStuckAction,
+  type RetryPolicy,
+} from './core/retry-policy.js';
+import { getCriterionDescription } from './core/acceptance-checks.js';
 
 const program = new Command();
 
@@ -26,6 +113,25 @@ function getWorkspacePath(): string {
   return resolve(process.cwd(), 'workspace');
 }
 
+// Ícones e rótulos de cada estado do ciclo de vida das features
+const STATUS_ICONS: Record<FeatureStatus, string> = {
+  pending: chalk.gray('○'),
+  in_progress: chalk.cyan('▶'),
+  completed: chalk.green('✓'),
+  failed: chalk.red('✗'),
+  blocked: chalk.red('⊘'),
+  skipped: chalk.gray('↷'),
+};
+
+const STATUS_LABELS: Record<FeatureStatus, string> = {
+  pending: 'pendentes',
+  in_progress: 'em andamento',
+  completed: 'completas',
+  failed: 'falharam',
+  blocked: 'bloqueadas',
+  skipped: 'puladas',
+};
+
 // Função auxiliar para prompts do usuário
 async function askUser(question: string): Promise<string> {
   const rl = createInterface({
@@ -64,21 +170,438 @@ function checkAuth(): boolean {
   return true;
 }
 
+/**
+ * Cria o backend do agente pedido em --backend (--script sozinho implica "scripted").
+ * Só o SDK precisa de autenticação configurada: o CLI usa o login do próprio claude
+ * e o backend scripted não chama o Claude.
+ */
+async function createAgentBackend(options: { backend?: string; script?: string }): Promise<AgentBackend> {
+  const name = options.backend ?? (options.script ? 'scripted' : 'sdk');
+  if (!isAgentBackendName(name)) {
+    console.log(chalk.red(`✗ Backend inválido: ${name}`));
+    console.log(chalk.gray(`  Use um de: ${AGENT_BACKENDS.join(', ')}`));
+    process.exit(1);
+  }
+  if (options.script && name !== 'scripted') {
+    console.log(chalk.red('✗ --script só pode ser usado com --backend scripted'));
+    process.exit(1);
+  }
+
+  if (name === 'scripted') {
+    if (!options.script) {
+      console.log(chalk.red('✗ --backend scripted requer --script <arquivo>'));
+      process.exit(1);
+    }
+    try {
+      const backend = await ScriptedAgentBackend.fromFile(resolve(options.script));
+      console.log(chalk.yellow(`! Usando agente simulado (${options.script}); o Claude não será chamado`));
+      return backend;
+    } catch (error) {
+      console.log(chalk.red(`✗ ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  if (name === 'cli') {
+    if (await isInsideClaudeSession()) {
+      console.log(chalk.red('✗ O backend cli não pode rodar dentro de uma sessão do Claude Code'));
+      console.log(chalk.gray('  Rode o harness em um terminal comum ou use --backend sdk'));
+      process.exit(1);
+    }
+    if (!(await isClaudeCodeAvailable())) {
+      console.log(chalk.red('✗ Comando "claude" não encontrado'));
+      console.log(chalk.gray('  Instale com: npm install -g @anthropic-ai/claude-code'));
+      process.exit(1);
+    }
+    console.log(chalk.yellow('! Usando o Claude Code CLI como backend (login do claude)'));
+    return new ClaudeCodeBackend(DEFAULT_AGENT_CONFIG);
+  }
+
+  if (!checkAuth()) {
+    process.exit(1);
+  }
+  return new SdkAgentBackend();
+}
+
+/**
+ * Mostra features pendentes que aguardam dependências.
+ * Retorna a quantidade de features bloqueadas.
+ */
+async function reportBlockedFeatures(contextBuilder: ContextBuilder): Promise<number> {
+  const featureList = await contextBuilder.loadFeatureList();
+  const blocked = featureList ? getBlockedFeatures(featureList.features) : [];
+
+  if (blocked.length > 0) {
+    console.log(chalk.yellow(`\n⏸ ${blocked.length} feature(s) pendente(s) aguardando dependências:`));
+    for (const { feature, blockedBy } of blocked) {
+      console.log(chalk.gray(`  ${feature.id}: ${feature.title} (bloqueada por: ${blockedBy.join(', ')})`));
+    }
+  }
+
+  return blocked.length;
+}
+
+/**
+ * Valida a opção --rollback, encerrando o processo se for inválida
+ */
+function parseRollbackPolicy(value: string): RollbackPolicy {
+  if (!isRollbackPolicy(value)) {
+    console.log(chalk.red(`✗ Política de rollback inválida: ${value}`));
+    console.log(chalk.gray(`  Use uma de: ${ROLLBACK_POLICIES.join(', ')}`));
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Valida um limite de orçamento (número positivo) vindo da linha de comando
+ */
+function parseBudgetOption(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    console.log(chalk.red(`✗ Valor inválido para ${flag}: ${value}`));
+    console.log(chalk.gray('  Use um número maior que zero'));
+    process.exit(1);
+  }
+  return limit;
+}
+
+/**
+ * Valida uma opção numérica da linha de comando (por padrão, inteira e maior que zero)
+ */
+function parseNumberOption(
+  flag: string,
+  value: string | undefined,
+  { min = 1, integer = true }: { min?: number; integer?: boolean } = {}
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < min || (integer && !Number.isInteger(number))) {
+    console.log(chalk.red(`✗ Valor inválido para ${flag}: ${value}`));
+    console.log(chalk.gray(`  Use um número${integer ? ' inteiro' : ''} maior ou igual a ${min}`));
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Configuração efetiva: padrões < usuário < projeto < ambiente < linha de comando.
+ * Encerra o processo se um arquivo de configuração ou variável de ambiente for inválido.
+ */
+async function loadSettings(
+  projectPath: string | undefined,
+  cli: HarnessProjectConfig = {}
+): Promise<ResolvedSettings> {
+  try {
+    return await resolveSettings(projectPath, cli);
+  } catch (error) {
+    console.log(chalk.red(`✗ ${error instanceof Error ? error.message : error}`));
+    console.log(chalk.gray('  Corrija o valor e confira o resultado com: harness config show'));
+    process.exit(1);
+  }
+}
+
+/**
+ * O backend cli roda com as permissões ignoradas: avisa, bem visível, quais
+ * proteções do projeto deixam de valer
+ */
+function warnUnguardedBackend(backend: AgentBackend, settings: HarnessSettings): void {
+  if (backend.name !== 'cli') {
+    return;
+  }
+  const unenforced = [
+    ...(settings.sandbox?.enabled === false ? [] : ['escritas fora do projeto (sandbox)']),
+    ...(hasCommandRules(settings.commands) ? ['regras de comandos Bash (commands)'] : []),
+    'proteção de .harness/ (config.json, attempts.json)',
+  ];
+  console.log(chalk.red.bold('⚠ ATENÇÃO: o backend cli roda com as permissões ignoradas'));
+  console.log(chalk.red(`  Não são aplicadas: ${unenforced.join(', ')}`));
+  console.log(chalk.gray('  Use --backend sdk para que o harness aplique essas proteções\n'));
+}
+
+// Configuração dos agentes com o modelo escolhido (sem ele, o padrão do Claude Code)
+function getAgentConfig(settings: HarnessSettings): AgentConfig {
+  return { ...DEFAULT_AGENT_CONFIG, model: settings.model };
+}
+
+/**
+ * Valida a lista de portas de --free-ports
+ */
+function parsePortsOption(value: string | undefined): number[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const ports = value.split(',').map((port) => Number(port.trim()));
+  if (!ports.every(isPort)) {
+    console.log(chalk.red(`✗ Valor inválido para --free-ports: ${value}`));
+    console.log(chalk.gray('  Use números de porta separados por vírgula, ex: 3000,5173'));
+    process.exit(1);
+  }
+  return ports;
+}
+
+/**
+ * Descreve um processo encerrado pelo harness
+ */
+function describeKilledProcess(killed: KilledProcess): string {
+  const port = killed.port !== undefined ? ` (porta ${killed.port})` : '';
+  return `${killed.pid} ${killed.command}${port}`;
+}
+
+/**
+ * Descreve uma chamada de ferramenta negada pelo harness
+ */
+function describeToolDenial(denial: ToolDenial): string {
+  if (denial.command !== undefined) {
+    return `${denial.tool}: ${denial.command} (regra ${denial.rule})`;
+  }
+  return denial.path
+    ? `${denial.tool} → ${denial.path} (fora do projeto)`
+    : `${denial.tool} (política de ferramentas)`;
+}
+
+/**
+ * Pausa o loop, avisando quando ele será retomado (Ctrl-C encerra a pausa)
+ */
+async function pauseLoop(ms: number, reason: string, shutdown: ShutdownHandler): Promise<void> {
+  const resumeAt = new Date(Date.now() + ms).toLocaleString('pt-BR', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  console.log(chalk.yellow(`\n⏸ ${reason}. Retomando ${resumeAt} (em ${formatDuration(ms)})`));
+  await shutdown.wait(ms);
+}
+
+/**
+ * Ctrl-C/SIGTERM: o primeiro encerra a sessão atual de forma limpa, o segundo força a saída
+ */
+function installShutdownHandler(): ShutdownHandler {
+  const shutdown = new ShutdownHandler({
+    onRequest: (signal) => {
+      console.log(chalk.yellow(`\n⏹ ${signal} recebido: encerrando a sessão atual e salvando o estado...`));
+      console.log(chalk.gray('  Pressione Ctrl-C de novo para sair imediatamente'));
+    },
+    onForce: () => {
+      console.log(chalk.red('\n✗ Saída forçada; a sessão pode ser retomada com harness run --resume'));
+    },
+  });
+  shutdown.install();
+  return shutdown;
+}
+
+/**
+ * Cria o controle de orçamento com o gasto já registrado de cada feature
+ */
+async function createBudgetTracker(projectPath: string, limits: BudgetLimits): Promise<BudgetTracker> {
+  const usage = summarizeUsage(await new AttemptStore(projectPath).load());
+  const featureSpend = new Map([...usage.byFeature].map(([id, totals]) => [id, totals.costUsd]));
+  return new BudgetTracker(limits, featureSpend);
+}
+
+/**
+ * Custo e tokens de uma sessão, ex: "$0.4213 · 182.4k tokens"
+ */
+function describeUsage(costUsd: number | undefined, usage: TokenUsage | undefined): string {
+  return [
+    costUsd !== undefined ? `$${costUsd.toFixed(4)}` : null,
+    usage ? `${formatTokens(getTotalTokens(usage))} tokens` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Caminho e tamanho da transcrição de uma sessão, ex: ".harness/sessions/a1b2.jsonl (142 mensagens, 380.2 KB)"
+ */
+function describeTranscript(projectPath: string, transcript: TranscriptRecord): string {
+  const details = [
+    `${transcript.messages} mensagens`,
+    `${(transcript.bytes / 1024).toFixed(1)} KB`,
+    transcript.dropped ? `${transcript.dropped} descartadas pelo limite de tamanho` : null,
+    existsSync(join(projectPath, transcript.path)) ? null : 'removida',
+  ].filter(Boolean);
+  return `${transcript.path} (${details.join(', ')})`;
+}
+
+/**
+ * Mostra o que foi feito com as mudanças de uma tentativa que falhou
+ */
+function describeRollback(rollback: RollbackRecord, fromCommit?: string): string {
+  if (rollback.skipped) {
+    return `rollback (${rollback.policy}) não aplicado: ${rollback.skipped}`;
+  }
+  if (rollback.ref) {
+    return `mudanças guardadas em ${rollback.ref} (git diff ${fromCommit?.slice(0, 7) ?? 'HEAD'} ${rollback.ref})`;
+  }
+  return `mudanças descartadas (${rollback.policy})`;
+}
+
+/**
+ * Aplica a ação de escalonamento a uma feature que esgotou as tentativas.
+ * Se a atomização falhar, a feature é bloqueada.
+ */
+async function escalateStuckFeature(
+  projectPath: string,
+  feature: Feature,
+  action: StuckAction,
+  attempts: number,
+  lastError: string | undefined,
+  backend: AgentBackend,
+  agentConfig: AgentConfig,
+  projectConfig: HarnessProjectConfig,
+  withFeatureList: FeatureListLock = (task) => task()
+): Promise<StuckEscalation> {
+  const escalation: StuckEscalation = {
+    featureId: feature.id,
+    title: feature.title,
+    attempts,
+    action,
+    lastError,
+  };
+
+  if (action === 'stop') {
+    return escalation;
+  }
+
+  const contextBuilder = new ContextBuilder(projectPath);
+  if (action === 'atomize') {
+    console.log(chalk.magenta(`\n⚑ ${feature.id} esgotou as tentativas; atomizando em features menores...`));
+    const atomizer = new FeatureAtomizerAgent(agentConfig, backend);
+    const result = await atomizer.atomizeFeature({
+      workspacePath: projectPath,
+      featureType: feature.type ?? 'feature',
+      description: buildAtomizeDescription(feature, attempts, lastError),
+      target: feature.target,
+      projectConfig,
+      withFeatureList,
+    });
+
+    if (result.success && result.features && result.features.length > 0) {
+      const newIds = result.features.map((f) => f.id);
+      await withFeatureList(async () => {
+        await contextBuilder.setFeatureStatus(feature.id, 'skipped');
+
+        // Quem dependia da feature original passa a depender das novas
+        const featureList = await contextBuilder.loadFeatureList();
+        if (featureList) {
+          replaceDependency(featureList.features, feature.id, newIds);
+          await contextBuilder.saveFeatureList(featureList);
+        }
+      });
+
+      escalation.detail = newIds.join(', ');
+      return escalation;
+    }
+
+    escalation.detail = `atomização falhou: ${result.error ?? 'erro desconhecido'}`;
+  }
+
+  escalation.action = 'block';
+  await withFeatureList(() => contextBuilder.setFeatureStatus(feature.id, 'blocked'));
+  return escalation;
+}
+
+/**
+ * Descrição enviada ao atomizador para uma feature travada
+ */
+function buildAtomizeDescription(feature: Feature, attempts: number, lastError?: string): string {
+  const criteria = feature.acceptance_criteria
+    .map((criterion) => `- ${getCriterionDescription(criterion)}`)
+    .join('\n');
+
+  return `${feature.title}
+
+${feature.description}
+
+Acceptance criteria:
+${criteria}
+
+This feature (${feature.id}) failed ${attempts} consecutive coding sessions${lastError ? ` (last error: ${lastError})` : ''}. Split it into smaller features that can each be completed in one session.`;
+}
+
+function describeEscalation(escalation: StuckEscalation): string {
+  const base = `${escalation.featureId} travou após ${escalation.attempts} tentativa(s)`;
+  switch (escalation.action) {
+    case 'stop':
+      return `${base}: loop interrompido`;
+    case 'atomize':
+      return `${base}: atomizada em ${escalation.detail}`;
+    case 'block':
+      return `${base}: marcada como bloqueada${escalation.detail ? ` (${escalation.detail})` : ''}`;
+  }
+}
+
+/**
+ * Valida a feature pedida com --feature.
+ * Encerra o processo se ela não existir ou não puder ser trabalhada.
+ */
+async function resolveTargetFeature(contextBuilder: ContextBuilder, featureId: string): Promise<Feature> {
+  const featureList = await contextBuilder.loadFeatureList();
+  const feature = featureList?.features.find((f) => f.id === featureId);
+
+  if (!featureList || !feature) {
+    console.log(chalk.red(`✗ Feature ${featureId} não encontrada em feature_list.json`));
+    process.exit(1);
+  }
+
+  if (isCompleted(feature)) {
+    console.log(chalk.yellow(`⚠ Feature ${feature.id} já está completa.`));
+    console.log(chalk.gray(`  Use "harness mark ${feature.id} pending" para refazê-la.`));
+    process.exit(1);
+  }
+
+  if (!isSchedulable(feature)) {
+    console.log(chalk.yellow(`⚠ Feature ${feature.id} está com status "${feature.status}".`));
+    console.log(chalk.gray(`  Use "harness mark ${feature.id} pending" para liberá-la.`));
+    process.exit(1);
+  }
+
+  const unmet = getUnmetDependencies(feature, featureList.features);
+  if (unmet.length > 0) {
+    console.log(
+      chalk.yellow(`⚠ ${feature.id} depende de features incompletas: ${unmet.join(', ')}. Executando mesmo assim.`)
+    );
+  }
+
+  return feature;
+}
+
 /**
  * Handler compartilhado para comandos de execução (suporta filtragem por tipo)
  */
 async function runCommandHandler(
-  options: { project?: string; maxTurns?: string; supabaseRef?: string; notify?: boolean },
+  options: { project?: string; maxTurns?: string; model?: string; supabaseRef?: string; notify?: boolean; feature?: string; verify?: boolean; rollback?: string; budgetUsd?: string; featureBudgetUsd?: string; backend?: string; script?: string; resume?: boolean; freePorts?: string; supervised?: boolean },
   featureType?: FeatureType
 ): Promise<void> {
-  if (!checkAuth()) {
+  const backend = await createAgentBackend(options);
+  if (options.supervised && backend.name === 'cli') {
+    console.log(chalk.red('✗ --supervised não funciona com --backend cli'));
+    console.log(chalk.gray('  A aprovação passa pelo callback de permissões do SDK; use --backend sdk'));
     process.exit(1);
   }
 
   const projectPath = options.project ? resolve(options.project) : process.cwd();
-  const maxTurns = parseInt(options.maxTurns || '50', 10);
-  const shouldNotify = options.notify && isEmailConfigured();
+  const { settings } = await loadSettings(projectPath, {
+    model: options.model,
+    maxTurns: parseNumberOption('--max-turns', options.maxTurns),
+    supabaseRef: options.supabaseRef,
+    notifications: { enabled: options.notify },
+    run: { rollback: options.rollback === undefined ? undefined : parseRollbackPolicy(options.rollback) },
+  });
+  warnUnguardedBackend(backend, settings);
+  const maxTurns = settings.maxTurns;
+  const shouldNotify = settings.notifications.enabled && isEmailConfigured(settings.notifications.to);
   const startTime = Date.now();
+  const rollback = settings.run.rollback;
+  const portsToFree = parsePortsOption(options.freePorts);
+  const budgetLimits: BudgetLimits = {
+    totalUsd: parseBudgetOption('--budget-usd', options.budgetUsd),
+    featureUsd: parseBudgetOption('--feature-budget-usd', options.featureBudgetUsd),
+  };
 
   // Validar feature_list.json
   const featureListPath = join(projectPath, 'feature_list.json');
@@ -91,21 +614,49 @@ async function runCommandHandler(
     process.exit(1);
   }
 
-  // Carregar próxima feature (filtrada por tipo se especificado)
+  // Com --resume, a feature da sessão interrompida tem prioridade
   const contextBuilder = new ContextBuilder(projectPath);
-  const feature = featureType
-    ? await contextBuilder.getNextFeatureByType(featureType)
-    : await contextBuilder.getNextFeature();
+  let featureId = options.feature;
+  if (options.resume && !featureId) {
+    const interrupted = await new AttemptStore(projectPath).findInterrupted();
+    if (interrupted) {
+      console.log(chalk.cyan(`↻ Sessão interrompida encontrada: ${interrupted.id}`));
+      featureId = interrupted.featureId;
+    } else {
+      console.log(chalk.gray('Nenhuma sessão interrompida; iniciando uma nova sessão'));
+    }
+  }
+
+  // Carregar a feature pedida ou a próxima (filtrada por tipo se especificado)
+  const feature = featureId
+    ? await resolveTargetFeature(contextBuilder, featureId)
+    : featureType
+      ? await contextBuilder.getNextFeatureByType(featureType)
+      : await contextBuilder.getNextFeature();
 
   if (!feature) {
     const typeMsg = featureType ? ` do tipo "${featureType}"` : '';
-    console.log(
-      chalk.green(`✓ Nenhuma feature pendente${typeMsg} encontrada. Todas as features podem estar completas!`)
-    );
+    const blockedCount = await reportBlockedFeatures(contextBuilder);
+    if (blockedCount > 0) {
+      console.log(
+        chalk.yellow(`\n⚠ Nenhuma feature${typeMsg} disponível: as pendentes dependem de features incompletas.`)
+      );
+    } else {
+      console.log(
+        chalk.green(`✓ Nenhuma feature pendente${typeMsg} encontrada. Todas as features podem estar completas!`)
+      );
+    }
     console.log(chalk.cyan('\n  Execute "harness status" para ver o status do projeto.'));
     process.exit(0);
   }
 
+  const budget = await createBudgetTracker(projectPath, budgetLimits);
+  const exceeded = budget.checkBeforeSession(feature.id);
+  if (exceeded) {
+    console.log(chalk.red(`✗ Orçamento esgotado: ${exceeded.message}`));
+    process.exit(1);
+  }
+
   console.log(chalk.cyan('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
   console.log(
     chalk.cyan.bold(`  Iniciando sessão para: ${feature.id} - ${feature.title}`)
@@ -113,15 +664,32 @@ async function runCommandHandler(
   if (feature.type) {
     console.log(chalk.gray(`  Tipo: ${feature.type}`));
   }
+  if (settings.model) {
+    console.log(chalk.gray(`  Modelo: ${settings.model}`));
+  }
   console.log(chalk.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
 
   const formatter = createOutputFormatter();
-  const agent = new CodingAgent(DEFAULT_AGENT_CONFIG);
+  const agent = new CodingAgent(getAgentConfig(settings), backend);
+  const shutdown = installShutdownHandler();
+  const supervisor = options.supervised ? new Supervisor({ cwd: projectPath }) : null;
+  if (supervisor) {
+    console.log(chalk.yellow('⏸ Modo supervisionado: escritas de arquivos e comandos Bash esperam sua aprovação\n'));
+  }
 
   const result = await agent.runSession({
     workspacePath: projectPath,
+    featureId: feature.id,
     maxTurns,
-    supabaseProjectRef: options.supabaseRef,
+    supabaseProjectRef: settings.supabaseRef,
+    verify: options.verify,
+    rollback,
+    resume: options.resume,
+    abortController: shutdown.abortController,
+    freePorts: portsToFree,
+    projectConfig: settings,
+    approveToolCall: supervisor ? (request) => supervisor.approve(request) : undefined,
+    maxBudgetUsd: budget.getSessionLimit(feature.id),
     onOutput: (text) => {
       const formatted = formatter.formatText(text);
       process.stdout.write(formatted);
@@ -130,6 +698,7 @@ async function runCommandHandler(
       console.log(chalk.gray(`\n[Progresso] ${msg}`));
     },
   });
+  supervisor?.close();
 
   console.log('\n');
   console.log(chalk.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
@@ -139,11 +708,70 @@ async function runCommandHandler(
     if (result.commitHash) {
       console.log(chalk.gray(`  Commit: ${result.commitHash}`));
     }
+  } else if (result.interrupted) {
+    console.log(chalk.yellow.bold(`⏹ Sessão de ${result.featureId} interrompida; a feature voltou para a fila`));
+    console.log(chalk.gray('  Para continuar de onde parou: harness run --resume'));
   } else {
     console.log(chalk.yellow.bold(`⚠ Feature ${result.featureId} incompleta`));
     if (result.error) {
       console.log(chalk.red(`  Erro: ${result.error}`));
     }
+    if (result.usageLimit) {
+      const resetAt = result.usageLimit.resetAt
+        ? ` (reset: ${new Date(result.usageLimit.resetAt).toLocaleString('pt-BR')})`
+        : '';
+      console.log(chalk.yellow(`  Limite de uso atingido; a feature voltou para a fila${resetAt}`));
+    }
+  }
+  if (result.verification) {
+    console.log(chalk.gray('  Verificação:'));
+    for (const check of result.verification.results) {
+      const icon = check.passed ? chalk.green('✓') : chalk.red('✗');
+      const status = check.timedOut ? ' (tempo esgotado)' : '';
+      console.log(chalk.gray(`    ${icon} ${check.command} ${formatDuration(check.durationMs)}${status}`));
+    }
+  }
+  if (result.acceptance) {
+    console.log(chalk.gray(`  Critérios de aceite: ${result.acceptance.met}/${result.acceptance.total}`));
+    for (const criterion of result.acceptance.results) {
+      const icon = criterion.passed ? chalk.green('✓') : chalk.red('✗');
+      console.log(chalk.gray(`    ${icon} ${criterion.description}`));
+    }
+  }
+  if (result.featureListViolations) {
+    console.log(chalk.yellow(`  Alterações revertidas em feature_list.json:`));
+    for (const violation of result.featureListViolations) {
+      console.log(chalk.yellow(`    • ${violation.message}`));
+    }
+  }
+  if (result.killedProcesses) {
+    console.log(chalk.gray('  Processos encerrados:'));
+    for (const killed of result.killedProcesses) {
+      console.log(chalk.gray(`    • ${describeKilledProcess(killed)}`));
+    }
+  }
+  if (result.deniedToolCalls) {
+    console.log(chalk.yellow('  Chamadas de ferramentas negadas:'));
+    for (const denial of result.deniedToolCalls) {
+      console.log(chalk.yellow(`    • ${describeToolDenial(denial)}`));
+    }
+  }
+  if (result.rollback && result.rollback.policy !== 'none') {
+    const attempt = result.attemptId ? await new AttemptStore(projectPath).get(result.attemptId) : null;
+    console.log(chalk.gray(`  Rollback: ${describeRollback(result.rollback, attempt?.commitRange.from)}`));
+  }
+  if (result.totalCostUsd !== undefined || result.usage) {
+    console.log(chalk.gray(`  Custo: ${describeUsage(result.totalCostUsd, result.usage)}`));
+  }
+  if (result.attemptId) {
+    console.log(chalk.gray(`  Tentativa: ${result.attemptId} (harness history ${result.featureId})`));
+  }
+  if (result.resumedFrom) {
+    console.log(chalk.gray(`  Continuação da sessão interrompida ${result.resumedFrom}`));
+  }
+  if (result.transcript) {
+    console.log(chalk.gray(`  Transcrição: ${describeTranscript(projectPath, result.transcript)}`));
+    console.log(chalk.gray(`  Replay: harness replay ${result.attemptId}`));
   }
 
   // Mostrar progresso
@@ -158,7 +786,7 @@ async function runCommandHandler(
   // Enviar notificação por e-mail se configurado
   if (shouldNotify) {
     const featureList = await contextBuilder.loadFeatureList();
-    const notifier = getEmailNotifier();
+    const notifier = getEmailNotifier(settings.notifications.to);
     const sent = await notifier.notifyRunCompletion({
       type: 'run',
       projectName: featureList?.project_name || 'Projeto',
@@ -173,6 +801,11 @@ async function runCommandHandler(
       console.log(chalk.gray('📧 Notificação enviada por e-mail'));
     }
   }
+
+  shutdown.uninstall();
+  if (shutdown.requested) {
+    process.exit(shutdown.exitCode);
+  }
 }
 
 // ============================================
@@ -204,7 +837,8 @@ program
       const techStack = options.tech?.split(',').map((t) => t.trim());
       const workspacePath = getWorkspacePath();
 
-      const agent = new InitializerAgent(DEFAULT_AGENT_CONFIG);
+      const { settings } = await loadSettings(undefined);
+      const agent = new InitializerAgent(getAgentConfig(settings));
       const formatter = createOutputFormatter();
 
       spinner.stop();
@@ -271,9 +905,21 @@ program
   .command('run')
   .description('Executar uma sessão de codificação para implementar a próxima feature')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .option('-m, --max-turns <n>', 'Máximo de turnos para o Claude', '50')
+  .option('-m, --max-turns <n>', `Máximo de turnos para o Claude (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('-f, --feature <id>', 'Trabalhar em uma feature específica em vez da próxima da fila')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.run.rollback})`)
+  .option('--budget-usd <usd>', 'Gasto máximo da sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado da feature, somando tentativas anteriores')
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--resume', 'Continuar a sessão interrompida (Ctrl-C, queda, reboot) se o código não mudou desde então')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes da sessão (ex: 3000,5173)')
+  .option('--supervised', 'Pedir aprovação antes de cada escrita de arquivo e comando Bash')
   .action(async (options) => {
     await runCommandHandler(options);
   });
@@ -285,9 +931,20 @@ program
   .command('refactor')
   .description('Executar uma sessão de refatoração (processa próxima feature de refatoração)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .option('-m, --max-turns <n>', 'Máximo de turnos para o Claude', '50')
+  .option('-m, --max-turns <n>', `Máximo de turnos para o Claude (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.run.rollback})`)
+  .option('--budget-usd <usd>', 'Gasto máximo da sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado da feature, somando tentativas anteriores')
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--resume', 'Continuar a sessão interrompida (Ctrl-C, queda, reboot) se o código não mudou desde então')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes da sessão (ex: 3000,5173)')
+  .option('--supervised', 'Pedir aprovação antes de cada escrita de arquivo e comando Bash')
   .action(async (options) => {
     await runCommandHandler(options, 'refactoring');
   });
@@ -299,9 +956,20 @@ program
   .command('fix')
   .description('Executar uma sessão de correção de bugs (processa próximo bugfix)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .option('-m, --max-turns <n>', 'Máximo de turnos para o Claude', '50')
+  .option('-m, --max-turns <n>', `Máximo de turnos para o Claude (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.run.rollback})`)
+  .option('--budget-usd <usd>', 'Gasto máximo da sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado da feature, somando tentativas anteriores')
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--resume', 'Continuar a sessão interrompida (Ctrl-C, queda, reboot) se o código não mudou desde então')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes da sessão (ex: 3000,5173)')
+  .option('--supervised', 'Pedir aprovação antes de cada escrita de arquivo e comando Bash')
   .action(async (options) => {
     await runCommandHandler(options, 'bugfix');
   });
@@ -313,9 +981,20 @@ program
   .command('improve')
   .description('Executar uma sessão de melhorias (processa próxima melhoria)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .option('-m, --max-turns <n>', 'Máximo de turnos para o Claude', '50')
+  .option('-m, --max-turns <n>', `Máximo de turnos para o Claude (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.run.rollback})`)
+  .option('--budget-usd <usd>', 'Gasto máximo da sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado da feature, somando tentativas anteriores')
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--resume', 'Continuar a sessão interrompida (Ctrl-C, queda, reboot) se o código não mudou desde então')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes da sessão (ex: 3000,5173)')
+  .option('--supervised', 'Pedir aprovação antes de cada escrita de arquivo e comando Bash')
   .action(async (options) => {
     await runCommandHandler(options, 'improvement');
   });
@@ -327,9 +1006,20 @@ program
   .command('docs')
   .description('Executar uma sessão de documentação (processa próxima feature de docs)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .option('-m, --max-turns <n>', 'Máximo de turnos para o Claude', '50')
+  .option('-m, --max-turns <n>', `Máximo de turnos para o Claude (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.run.rollback})`)
+  .option('--budget-usd <usd>', 'Gasto máximo da sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado da feature, somando tentativas anteriores')
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--resume', 'Continuar a sessão interrompida (Ctrl-C, queda, reboot) se o código não mudou desde então')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes da sessão (ex: 3000,5173)')
+  .option('--supervised', 'Pedir aprovação antes de cada escrita de arquivo e comando Bash')
   .action(async (options) => {
     await runCommandHandler(options, 'docs');
   });
@@ -386,7 +1076,8 @@ async function addFeatureHandler(
   console.log(chalk.cyan.bold(`  Adicionando feature ${featureType}...${targetLabel}`));
   console.log(chalk.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
 
-  const agent = new FeatureAdderAgent(DEFAULT_AGENT_CONFIG);
+  const { settings } = await loadSettings(projectPath);
+  const agent = new FeatureAdderAgent(getAgentConfig(settings));
   const formatter = createOutputFormatter();
 
   // Adicionar target à descrição se especificado
@@ -475,7 +1166,8 @@ async function atomizeFeatureHandler(
   }
   console.log(chalk.gray('Isso será dividido em 3-10 features atômicas e executáveis.\n'));
 
-  const agent = new FeatureAtomizerAgent(DEFAULT_AGENT_CONFIG);
+  const { settings } = await loadSettings(projectPath);
+  const agent = new FeatureAtomizerAgent(getAgentConfig(settings));
   const formatter = createOutputFormatter();
 
   // Adicionar target à descrição se especificado
@@ -757,7 +1449,7 @@ program
       project_name: projectName,
       description: projectDescription || 'Projeto adotado pelo harness',
       ...(techStack.length > 0 && { tech_stack: techStack }),
-      features: [] as { id: string; title: string; description: string; acceptance_criteria: string[]; passes: boolean }[],
+      features: [] as Feature[],
     };
 
     // Importar tipos para FeatureList
@@ -830,6 +1522,18 @@ program
       )
     );
 
+    // Detalhamento por estado (apenas estados além de pendente/completa)
+    const otherStates = FEATURE_STATUSES.filter(
+      (status) => status !== 'pending' && status !== 'completed' && stats.byStatus[status] > 0
+    );
+    if (otherStates.length > 0) {
+      console.log(
+        chalk.gray(
+          `           ${otherStates.map((status) => `${stats.byStatus[status]} ${STATUS_LABELS[status]}`).join(' / ')}`
+        )
+      );
+    }
+
     // Detalhamento por tipo
     const statsByType = await contextBuilder.getProgressStatsByType();
     if (Object.keys(statsByType.byType).length > 0) {
@@ -846,16 +1550,60 @@ program
       }
     }
 
+    // Features pendentes aguardando dependências
+    const blockedById = new Map(
+      getBlockedFeatures(featureList.features).map((b) => [b.feature.id, b.blockedBy])
+    );
+
+    // Critérios de aceite verificados na última tentativa de cada feature
+    const attempts = await new AttemptStore(projectPath).load();
+    const acceptanceById = new Map<string, AcceptanceReport>();
+    for (const attempt of attempts) {
+      if (attempt.acceptance) {
+        acceptanceById.set(attempt.featureId, attempt.acceptance);
+      }
+    }
+
+    // Gasto registrado nas tentativas
+    const usage = summarizeUsage(attempts);
+    if (usage.sessions > 0) {
+      console.log(
+        chalk.cyan('\n💰 Gasto até agora: ') +
+          chalk.gray(`$${usage.costUsd.toFixed(2)} · ${formatTokens(usage.tokens)} tokens em ${usage.sessions} sessão(ões)`)
+      );
+    }
+
     console.log(chalk.cyan('\nFeatures:'));
     for (const feature of featureList.features) {
-      const status = feature.passes
-        ? chalk.green('✓')
-        : chalk.gray('○');
-      const title = feature.passes
-        ? chalk.gray(feature.title)
-        : chalk.white(feature.title);
+      const blockedBy = blockedById.get(feature.id);
+      const status = blockedBy ? chalk.yellow('⏸') : STATUS_ICONS[feature.status];
+      const title =
+        feature.status === 'completed' || feature.status === 'skipped'
+          ? chalk.gray(feature.title)
+          : chalk.white(feature.title);
       const typeLabel = feature.type ? chalk.gray(` [${feature.type}]`) : '';
-      console.log(`  ${status} ${feature.id}: ${title}${typeLabel}`);
+      const blockedLabel = blockedBy
+        ? chalk.yellow(` (bloqueada por: ${blockedBy.join(', ')})`)
+        : '';
+      const acceptance = acceptanceById.get(feature.id);
+      const acceptanceLabel = acceptance && !isCompleted(feature)
+        ? chalk.gray(` (${acceptance.met}/${acceptance.total} critérios)`)
+        : '';
+      const featureCost = usage.byFeature.get(feature.id)?.costUsd ?? 0;
+      const costLabel = featureCost > 0 ? chalk.gray(` $${featureCost.toFixed(2)}`) : '';
+      console.log(`  ${status} ${feature.id}: ${title}${typeLabel}${acceptanceLabel}${costLabel}${blockedLabel}`);
+    }
+
+    // Problemas no grafo de dependências
+    const dependencyReport = analyzeDependencies(featureList.features);
+    if (dependencyReport.unknown.length > 0 || dependencyReport.cycles.length > 0) {
+      console.log(chalk.red('\n⚠ Problemas de dependência:'));
+      for (const { featureId, dependencyId } of dependencyReport.unknown) {
+        console.log(chalk.red(`  ${featureId} depende de ${dependencyId}, que não existe`));
+      }
+      for (const cycle of dependencyReport.cycles) {
+        console.log(chalk.red(`  Ciclo: ${[...cycle, cycle[0]].join(' → ')}`));
+      }
     }
 
     // Próxima feature
@@ -863,6 +1611,8 @@ program
     if (nextFeature) {
       console.log(chalk.cyan(`\nPróxima feature: ${nextFeature.id} - ${nextFeature.title}`));
       console.log(chalk.gray(`  ${nextFeature.description}`));
+    } else if (blockedById.size > 0) {
+      console.log(chalk.yellow('\n⚠ Nenhuma feature disponível: todas as pendentes estão bloqueadas por dependências.'));
     } else {
       console.log(chalk.green('\n✓ Todas as features completas!'));
     }
@@ -870,30 +1620,278 @@ program
     console.log(chalk.cyan('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
   });
 
+// ============================================
+// Comando HISTORY
+// ============================================
+program
+  .command('history <featureId>')
+  .description('Mostrar o histórico de tentativas de uma feature')
+  .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
+  .action(async (featureId: string, options: { project?: string }) => {
+    const projectPath = options.project
+      ? resolve(options.project)
+      : process.cwd();
+
+    const contextBuilder = new ContextBuilder(projectPath);
+    const featureList = await contextBuilder.loadFeatureList();
+    const feature = featureList?.features.find((f) => f.id === featureId);
+
+    const attempts = await new AttemptStore(projectPath).list(featureId);
+    if (!feature && attempts.length === 0) {
+      console.log(chalk.red(`✗ Feature ${featureId} não encontrada`));
+      process.exit(1);
+    }
+
+    console.log(chalk.cyan('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
+    console.log(chalk.cyan.bold(`  Histórico: ${featureId}${feature ? ` - ${feature.title}` : ''}`));
+    console.log(chalk.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+
+    if (feature) {
+      console.log(chalk.gray(`Estado atual: ${STATUS_ICONS[feature.status]} ${feature.status}`));
+    }
+
+    if (attempts.length === 0) {
+      console.log(chalk.gray('\nNenhuma tentativa registrada.'));
+      return;
+    }
+
+    const outcomeColors: Record<AttemptOutcome, (text: string) => string> = {
+      running: chalk.cyan,
+      completed: chalk.green,
+      failed: chalk.yellow,
+      error: chalk.red,
+      limited: chalk.magenta,
+      interrupted: chalk.blue,
+    };
+
+    let totalCost = 0;
+    attempts.forEach((attempt, index) => {
+      totalCost += attempt.totalCostUsd ?? 0;
+      const startedAt = new Date(attempt.startedAt).toLocaleString();
+      const details = [
+        attempt.durationMs !== undefined ? formatDuration(attempt.durationMs) : null,
+        attempt.numTurns !== undefined ? `${attempt.numTurns} turnos` : null,
+        attempt.totalCostUsd !== undefined ? `$${attempt.totalCostUsd.toFixed(4)}` : null,
+        attempt.usage ? `${formatTokens(getTotalTokens(attempt.usage))} tokens` : null,
+      ].filter(Boolean);
+
+      console.log(
+        `\n  #${index + 1} ${outcomeColors[attempt.outcome](attempt.outcome)} ${chalk.gray(startedAt)}`
+      );
+      console.log(chalk.gray(`     ID: ${attempt.id}${attempt.checkpoint ? ` · sessão ${attempt.checkpoint.sessionId}` : ''}`));
+      if (attempt.resumedFrom) {
+        console.log(chalk.gray(`     Continuação de ${attempt.resumedFrom}`));
+      }
+      if (details.length > 0) {
+        console.log(chalk.gray(`     ${details.join(' · ')}`));
+      }
+      const { from, to } = attempt.commitRange;
+      if (from || to) {
+        const range = from && to && from !== to
+          ? `${from.slice(0, 7)}..${to.slice(0, 7)}`
+          : `${(to ?? from)?.slice(0, 7)} (sem novos commits)`;
+        console.log(chalk.gray(`     Commits: ${range}`));
+      }
+      if (attempt.verification) {
+        const checks = attempt.verification.results
+          .map((check) => `${check.passed ? chalk.green('✓') : chalk.red('✗')} ${check.name}`)
+          .join(' ');
+        console.log(chalk.gray(`     Verificação: ${checks || 'nenhum comando'}`));
+      }
+      if (attempt.acceptance) {
+        console.log(chalk.gray(`     Critérios: ${attempt.acceptance.met}/${attempt.acceptance.total}`));
+        for (const criterion of attempt.acceptance.results.filter((r) => !r.passed)) {
+          console.log(chalk.gray(`       ${chalk.red('✗')} ${criterion.description}`));
+        }
+      }
+      if (attempt.featureListViolations) {
+        console.log(chalk.yellow(`     feature_list.json: ${attempt.featureListViolations.length} alteração(ões) revertida(s)`));
+        for (const violation of attempt.featureListViolations) {
+          console.log(chalk.gray(`       • ${violation.message}`));
+        }
+      }
+      if (attempt.rollback && attempt.rollback.policy !== 'none') {
+        console.log(chalk.gray(`     Rollback: ${describeRollback(attempt.rollback, attempt.commitRange.from)}`));
+      }
+      if (attempt.killedProcesses) {
+        console.log(chalk.gray(`     Processos encerrados: ${attempt.killedProcesses.map(describeKilledProcess).join(', ')}`));
+      }
+      if (attempt.deniedToolCalls) {
+        console.log(chalk.yellow(`     Negadas: ${attempt.deniedToolCalls.map(describeToolDenial).join(', ')}`));
+      }
+      if (attempt.transcript) {
+        console.log(chalk.gray(`     Transcrição: ${describeTranscript(projectPath, attempt.transcript)} · harness replay ${attempt.id}`));
+      }
+      if (attempt.error) {
+        console.log(chalk.red(`     Erro: ${attempt.error}`));
+      }
+    });
+
+    console.log(
+      chalk.gray(`\n  ${attempts.length} tentativa(s) · custo total: $${totalCost.toFixed(4)}`)
+    );
+    console.log(chalk.cyan('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+  });
+
+// ============================================
+// Comando REPLAY
+// ============================================
+program
+  .command('replay <sessionId>')
+  .description('Re-renderizar uma sessão gravada em .harness/sessions (sem rodar o agente)')
+  .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
+  .option('--tools', 'Mostrar só as chamadas de ferramentas')
+  .option('--edits', 'Mostrar só as edições de arquivos')
+  .option('--text', 'Mostrar só o texto do agente')
+  .option('--errors', 'Mostrar só os erros')
+  .action(async (sessionId: string, options: {
+    project?: string;
+    tools?: boolean;
+    edits?: boolean;
+    text?: boolean;
+    errors?: boolean;
+  }) => {
+    const projectPath = options.project
+      ? resolve(options.project)
+      : process.cwd();
+
+    const filters = (['tools', 'edits', 'text', 'errors'] as const).filter((name) => options[name]);
+    if (filters.length > 1) {
+      console.log(chalk.red(`✗ Use só uma das opções: ${filters.map((name) => `--${name}`).join(', ')}`));
+      process.exit(1);
+    }
+    const filter: MessageFilter = filters[0] ?? 'all';
+
+    const lines = await readTranscript(projectPath, sessionId);
+    if (!lines) {
+      console.log(chalk.red(`✗ Nenhuma transcrição encontrada para a sessão ${sessionId}`));
+      console.log(chalk.gray('  Use "harness history <featureId>" para ver os IDs das sessões'));
+      process.exit(1);
+    }
+
+    const attempt = await new AttemptStore(projectPath).get(sessionId);
+    console.log(chalk.cyan('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
+    console.log(chalk.cyan.bold(`  Replay: ${sessionId}${attempt ? ` - ${attempt.featureId} ${attempt.featureTitle}` : ''}`));
+    if (attempt) {
+      console.log(chalk.gray(`  ${new Date(attempt.startedAt).toLocaleString()} · ${attempt.outcome}`));
+    }
+    console.log(chalk.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+
+    const formatter = createOutputFormatter();
+    let shown = 0;
+    for (const line of lines) {
+      const formatted = formatter.formatMessage(line.message as SDKMessage, filter);
+      if (formatted) {
+        process.stdout.write(formatted);
+        shown++;
+      }
+    }
+
+    if (shown === 0) {
+      console.log(chalk.gray(filter === 'errors' ? 'Nenhum erro na sessão.' : 'Nada a mostrar com esse filtro.'));
+    }
+    if (attempt?.transcript?.dropped) {
+      console.log(chalk.yellow(`\n⚠ ${attempt.transcript.dropped} mensagens não foram gravadas (limite de tamanho da transcrição)`));
+    }
+    console.log();
+  });
+
 // ============================================
 // Comando LOOP
 // ============================================
 program
   .command('loop')
   .description('Executar sessões de codificação em loop até todas as features estarem completas')
-  .option('-m, --max <n>', 'Máximo de sessões', '100')
-  .option('-t, --max-turns <n>', 'Máximo de turnos por sessão', '50')
+  .option('-m, --max <n>', `Máximo de sessões (padrão: ${DEFAULT_SETTINGS.loop.maxSessions})`)
+  .option('-t, --max-turns <n>', `Máximo de turnos por sessão (padrão: ${DEFAULT_SETTINGS.maxTurns})`)
+  .option('--model <modelo>', 'Modelo do Claude (padrão: o do Claude Code)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
   .option('-s, --supabase-ref <ref>', 'Ref do projeto Supabase (sobrescreve SUPABASE_PROJECT_REF)')
   .option('--type <type>', 'Processar apenas features de um tipo específico')
   .option('-n, --notify', 'Enviar notificação por e-mail ao concluir')
-  .action(async (options: { max?: string; maxTurns?: string; project?: string; supabaseRef?: string; type?: string; notify?: boolean }) => {
-    if (!checkAuth()) {
-      process.exit(1);
-    }
+  .option('--no-notify', 'Não enviar notificação, mesmo que a configuração peça')
+  .option('--no-verify', 'Aceitar a conclusão sem verificação (comandos e critérios de aceite)')
+  .option('--rollback <política>', `O que fazer com as mudanças de uma sessão que falhou (${ROLLBACK_POLICIES.join(', ')}; padrão: ${DEFAULT_SETTINGS.loop.rollback})`)
+  .option('--max-attempts <n>', `Tentativas por feature antes de escalar (padrão: ${DEFAULT_SETTINGS.loop.maxAttempts})`)
+  .option('--retry-delay <segundos>', `Espera entre sessões; dobra a cada falha da mesma feature (padrão: ${DEFAULT_SETTINGS.loop.retryDelaySeconds})`)
+  .option('--on-stuck <ação>', `O que fazer com uma feature que esgotou as tentativas (${STUCK_ACTIONS.join(', ')}; padrão: ${DEFAULT_SETTINGS.loop.onStuck})`)
+  .option('--parallel <n>', `Executar até N features independentes ao mesmo tempo, cada uma em seu próprio git worktree (padrão: ${DEFAULT_SETTINGS.loop.parallel})`)
+  .option('--budget-usd <usd>', 'Gasto máximo do loop em dólares')
+  .option('--session-budget-usd <usd>', 'Gasto máximo de cada sessão em dólares')
+  .option('--feature-budget-usd <usd>', 'Gasto máximo acumulado por feature, somando tentativas anteriores')
+  .option('--max-tokens-total <n>', 'Máximo de tokens do loop')
+  .option('--active-hours <janela>', 'Só iniciar sessões nesta janela de horário local (ex: 22:00-06:00)')
+  .option('--limit-backoff <minutos>', `Espera após um limite de uso sem horário de reset; dobra a cada limite seguido (padrão: ${DEFAULT_SETTINGS.loop.limitBackoffMinutes})`)
+  .option('--backend <nome>', `Backend do agente (${AGENT_BACKENDS.join(', ')})`)
+  .option('--script <arquivo>', 'Roteiro JSON do backend scripted (agente simulado, sem chamar o Claude)')
+  .option('--free-ports <portas>', 'Matar quem estiver ouvindo nestas portas antes de cada sessão (ex: 3000,5173)')
+  .action(async (options: { max?: string; maxTurns?: string; model?: string; project?: string; supabaseRef?: string; type?: string; notify?: boolean; verify?: boolean; rollback?: string; maxAttempts?: string; retryDelay?: string; onStuck?: string; parallel?: string; budgetUsd?: string; sessionBudgetUsd?: string; featureBudgetUsd?: string; maxTokensTotal?: string; activeHours?: string; limitBackoff?: string; backend?: string; script?: string; freePorts?: string }) => {
+    const backend = await createAgentBackend(options);
 
     const projectPath = options.project
       ? resolve(options.project)
       : process.cwd();
-    const maxSessions = parseInt(options.max || '100', 10);
-    const maxTurns = parseInt(options.maxTurns || '50', 10);
-    const shouldNotify = options.notify && isEmailConfigured();
+
+    if (options.onStuck !== undefined && !isStuckAction(options.onStuck)) {
+      console.log(chalk.red(`✗ Ação inválida para --on-stuck: ${options.onStuck}`));
+      console.log(chalk.gray(`  Use uma de: ${STUCK_ACTIONS.join(', ')}`));
+      process.exit(1);
+    }
+    const { settings } = await loadSettings(projectPath, {
+      model: options.model,
+      maxTurns: parseNumberOption('--max-turns', options.maxTurns),
+      supabaseRef: options.supabaseRef,
+      notifications: { enabled: options.notify },
+      loop: {
+        maxSessions: parseNumberOption('--max', options.max),
+        maxAttempts: parseNumberOption('--max-attempts', options.maxAttempts),
+        retryDelaySeconds: parseNumberOption('--retry-delay', options.retryDelay, { min: 0, integer: false }),
+        onStuck: options.onStuck,
+        rollback: options.rollback === undefined ? undefined : parseRollbackPolicy(options.rollback),
+        parallel: parseNumberOption('--parallel', options.parallel),
+        limitBackoffMinutes: parseNumberOption('--limit-backoff', options.limitBackoff, { integer: false }),
+        activeHours: options.activeHours,
+      },
+    });
+    warnUnguardedBackend(backend, settings);
+    const agentConfig = getAgentConfig(settings);
+    const maxSessions = settings.loop.maxSessions;
+    const maxTurns = settings.maxTurns;
+    const shouldNotify = settings.notifications.enabled && isEmailConfigured(settings.notifications.to);
     const startTime = Date.now();
+    const rollback = settings.loop.rollback;
+
+    const retryPolicy: RetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: settings.loop.maxAttempts,
+      baseDelayMs: settings.loop.retryDelaySeconds * 1000,
+      onStuck: settings.loop.onStuck,
+    };
+    const attempts = new AttemptTracker(retryPolicy);
+    const escalations: StuckEscalation[] = [];
+    const parallel = settings.loop.parallel;
+
+    const budgetLimits: BudgetLimits = {
+      totalUsd: parseBudgetOption('--budget-usd', options.budgetUsd),
+      sessionUsd: parseBudgetOption('--session-budget-usd', options.sessionBudgetUsd),
+      featureUsd: parseBudgetOption('--feature-budget-usd', options.featureBudgetUsd),
+      totalTokens: parseBudgetOption('--max-tokens-total', options.maxTokensTotal),
+    };
+
+    let activeHours: ActiveHours | undefined;
+    if (settings.loop.activeHours) {
+      try {
+        activeHours = parseActiveHours(settings.loop.activeHours);
+      } catch (error) {
+        console.log(chalk.red(`✗ ${error instanceof Error ? error.message : error}`));
+        console.log(chalk.gray('  Exemplo: --active-hours 22:00-06:00'));
+        process.exit(1);
+      }
+    }
+    const limitBackoffMs = settings.loop.limitBackoffMinutes * 60 * 1000;
+    const portsToFree = parsePortsOption(options.freePorts);
+    // Limites de uso seguidos (para o backoff sem horário de reset)
+    let limitHits = 0;
 
     // Debug: log Supabase project ref
     if (options.supabaseRef) {
@@ -917,74 +1915,387 @@ program
     let successfulSessions = 0;
     let failedSessions = 0;
     let lastError: string | undefined;
-    let stoppedReason: 'all_complete' | 'max_sessions' | 'error' = 'max_sessions';
+    let stoppedReason: LoopCompletionData['stoppedReason'] = 'max_sessions';
+    const budget = await createBudgetTracker(projectPath, budgetLimits);
+    const overBudget: string[] = [];
+    const shutdown = installShutdownHandler();
+    const interruptedFeatures: string[] = [];
+
+    // Fora da janela de horário: esperar até ela abrir
+    const waitForActiveHours = async (): Promise<void> => {
+      const wait = activeHours ? getMsUntilActiveHours(activeHours) : 0;
+      if (activeHours && wait > 0) {
+        await pauseLoop(wait, `Fora do horário ativo (${formatActiveHours(activeHours)})`, shutdown);
+      }
+    };
+
+    // Limite de uso: esperar o reset sem contar como tentativa da feature
+    const waitForUsageLimit = async (usageLimit: UsageLimit): Promise<void> => {
+      limitHits++;
+      const label = usageLimit.kind === 'usage_limit' ? 'Limite de uso atingido' : 'Limite de requisições atingido';
+      console.log(chalk.yellow(`\n⚠ ${label}: ${usageLimit.message}`));
+      await pauseLoop(getUsageLimitDelay(usageLimit, limitBackoffMs, limitHits), label, shutdown);
+    };
+
+    // Feature que esgotou o próprio orçamento fica bloqueada; os demais limites encerram o loop
+    const applyBudget = async (
+      feature: Feature,
+      withFeatureList: FeatureListLock = (task) => task()
+    ): Promise<'run' | 'skip' | 'stop'> => {
+      const exceeded = budget.checkBeforeSession(feature.id);
+      if (!exceeded) {
+        return 'run';
+      }
+      if (exceeded.scope === 'feature') {
+        await withFeatureList(() => contextBuilder.setFeatureStatus(feature.id, 'blocked'));
+        overBudget.push(feature.id);
+        console.log(chalk.yellow(`\n⚠ ${exceeded.message}: ${feature.id} marcada como bloqueada`));
+        return 'skip';
+      }
+      console.log(chalk.yellow(`\n⚠ Orçamento esgotado: ${exceeded.message}`));
+      stoppedReason = 'budget';
+      return 'stop';
+    };
 
     if (featureType) {
       console.log(chalk.gray(`Filtrando por tipo: ${featureType}\n`));
     }
 
-    while (session < maxSessions) {
-      session++;
+    if (parallel > 1) {
+      // As branches são mescladas no checkout principal: ele precisa estar limpo
+      if (await hasUncommittedChanges(projectPath)) {
+        console.log(chalk.red('✗ O modo paralelo exige um working tree sem alterações pendentes'));
+        console.log(chalk.gray('  Faça commit ou stash das alterações antes de usar --parallel'));
+        process.exit(1);
+      }
+      console.log(chalk.gray(`Modo paralelo: até ${parallel} sessões simultâneas em git worktrees\n`));
 
-      const feature = featureType
-        ? await contextBuilder.getNextFeatureByType(featureType)
-        : await contextBuilder.getNextFeature();
-      if (!feature) {
-        console.log(chalk.green('\n✓ Todas as features estão completas!'));
-        stoppedReason = 'all_complete';
-        break;
+      // As portas são compartilhadas pelas sessões: liberadas uma vez, antes de começar
+      const ports = portsToFree ?? settings.processes?.freePorts ?? [];
+      for (const killed of await freePorts(ports)) {
+        console.log(chalk.gray(`  Porta liberada: ${describeKilledProcess(killed)}`));
       }
 
-      console.log(chalk.cyan(`\n${'═'.repeat(60)}`));
-      console.log(chalk.cyan.bold(`  Sessão ${session}: ${feature.id} - ${feature.title}`));
-      console.log(chalk.cyan(`${'═'.repeat(60)}\n`));
+      const runner = new ParallelRunner(agentConfig, backend);
+      const sessionStartedAt = new Map<string, number>();
+      let lastPauseEndedAt = 0;
+      let usagePause: Promise<void> | undefined;
+      try {
+        const summary = await runner.run({
+          projectPath,
+          concurrency: parallel,
+          maxSessions,
+          featureType,
+          // Uma feature que falhou espera o backoff (--retry-delay) antes de voltar à fila
+          getRetryAt: (feature) => attempts.getRetryAt(feature.id),
+          session: {
+            maxTurns,
+            supabaseProjectRef: settings.supabaseRef,
+            verify: options.verify,
+            resume: true,
+            abortController: shutdown.abortController,
+            projectConfig: settings,
+          },
+          beforeSession: async (feature, running, withFeatureList) => {
+            // Nenhuma sessão nova começa durante a pausa de um limite de uso
+            await usagePause;
+            await waitForActiveHours();
+            if (shutdown.requested) {
+              return 'stop';
+            }
+            const action = await applyBudget(feature, withFeatureList);
+            return action === 'run'
+              ? { maxBudgetUsd: budget.getSessionLimit(feature.id, running + 1) }
+              : action;
+          },
+          onSessionStart: (feature, n, worktree) => {
+            sessionStartedAt.set(feature.id, Date.now());
+            console.log(chalk.cyan.bold(`\n▶ Sessão ${n}: ${feature.id} - ${feature.title}`));
+            console.log(chalk.gray(`  Worktree: ${worktree.path} (${worktree.branch})`));
+          },
+          onProgress: (feature, message) => {
+            console.log(chalk.gray(`  [${feature.id}] ${message}`));
+          },
+          onSessionEnd: async (feature, result, n, withFeatureList) => {
+            budget.record(feature.id, result.totalCostUsd, result.usage);
+            if (result.totalCostUsd !== undefined || result.usage) {
+              console.log(chalk.gray(`  [${feature.id}] Custo: ${describeUsage(result.totalCostUsd, result.usage)}`));
+            }
+            if (result.featureListViolations) {
+              console.log(
+                chalk.yellow(`  [${feature.id}] ⚠ ${result.featureListViolations.length} alteração(ões) fora do escopo revertida(s) em feature_list.json`)
+              );
+            }
+            for (const killed of result.killedProcesses ?? []) {
+              console.log(chalk.gray(`  [${feature.id}] Processo encerrado: ${describeKilledProcess(killed)}`));
+            }
+            for (const denial of result.deniedToolCalls ?? []) {
+              console.log(chalk.yellow(`  [${feature.id}] Negada: ${describeToolDenial(denial)}`));
+            }
+
+            if (result.interrupted) {
+              console.log(chalk.yellow(`\n⏹ Sessão ${n} interrompida: ${feature.id} voltou para a fila`));
+              interruptedFeatures.push(feature.id);
+              return false;
+            }
+
+            if (result.usageLimit) {
+              // Sessões que bateram no mesmo limite durante uma pausa não esperam de novo
+              if ((sessionStartedAt.get(feature.id) ?? 0) > lastPauseEndedAt) {
+                usagePause ??= waitForUsageLimit(result.usageLimit).then(() => {
+                  lastPauseEndedAt = Date.now();
+                  usagePause = undefined;
+                });
+              }
+              await usagePause;
+              return true;
+            }
+            limitHits = 0;
+
+            if (result.success) {
+              console.log(chalk.green(`\n✓ Sessão ${n} completa: ${feature.id} mesclada`));
+              successfulSessions++;
+              attempts.recordSuccess(feature.id);
+              return true;
+            }
+
+            const failures = attempts.recordFailure(feature.id);
+            console.log(
+              chalk.yellow(`\n⚠ Sessão ${n} incompleta (tentativa ${failures}/${retryPolicy.maxAttempts} de ${feature.id})`)
+            );
+            failedSessions++;
+            if (result.error) {
+              console.log(chalk.red(`  Erro: ${result.error}`));
+              lastError = result.error;
+            }
+
+            if (!attempts.isStuck(feature.id)) {
+              return true;
+            }
+            const escalation = await escalateStuckFeature(
+              projectPath,
+              feature,
+              retryPolicy.onStuck,
+              failures,
+              result.error,
+              backend,
+              agentConfig,
+              settings,
+              withFeatureList
+            );
+            escalations.push(escalation);
+            console.log(chalk.magenta(`\n⚑ ${describeEscalation(escalation)}`));
+            if (escalation.action === 'stop') {
+              stoppedReason = 'stuck';
+              return false;
+            }
+            return true;
+          },
+        });
+
+        session = summary.sessions;
+        if (shutdown.requested) {
+          stoppedReason = 'interrupted';
+        } else if (summary.stoppedReason === 'idle') {
+          if (await reportBlockedFeatures(contextBuilder) > 0) {
+            console.log(chalk.yellow('\n⚠ Nenhuma feature disponível: as pendentes dependem de features incompletas.'));
+            stoppedReason = 'blocked';
+          } else {
+            console.log(chalk.green('\n✓ Todas as features estão completas!'));
+            stoppedReason = 'all_complete';
+          }
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.log(chalk.red(`\n✗ Erro no modo paralelo: ${lastError}`));
+        stoppedReason = 'error';
+      }
+    } else {
+      // Feature interrompida (limite de uso, ou uma execução anterior que parou no meio): retomada na sessão seguinte
+      let resumeFeatureId = (await new AttemptStore(projectPath).findInterrupted())?.featureId;
+      if (resumeFeatureId) {
+        console.log(chalk.cyan(`↻ Retomando ${resumeFeatureId}, interrompida em uma execução anterior`));
+      }
 
-      // Reset formatter para nova sessão
-      formatter.reset();
+      while (session < maxSessions && !shutdown.requested) {
+        session++;
+        await waitForActiveHours();
+        if (shutdown.requested) {
+          session--;
+          break;
+        }
 
-      const agent = new CodingAgent(DEFAULT_AGENT_CONFIG);
-      const result = await agent.runSession({
-        workspacePath: projectPath,
-        maxTurns,
-        supabaseProjectRef: options.supabaseRef,
-        onOutput: (text) => {
-          const formatted = formatter.formatText(text);
-          process.stdout.write(formatted);
-        },
-      });
+        const resumed = resumeFeatureId ? await contextBuilder.getFeature(resumeFeatureId) : null;
+        resumeFeatureId = undefined;
+        const feature = resumed && isSchedulable(resumed)
+          ? resumed
+          : featureType
+            ? await contextBuilder.getNextFeatureByType(featureType)
+            : await contextBuilder.getNextFeature();
+        if (!feature) {
+          if (await reportBlockedFeatures(contextBuilder) > 0) {
+            console.log(chalk.yellow('\n⚠ Nenhuma feature disponível: as pendentes dependem de features incompletas.'));
+            stoppedReason = 'blocked';
+          } else {
+            console.log(chalk.green('\n✓ Todas as features estão completas!'));
+            stoppedReason = 'all_complete';
+          }
+          break;
+        }
 
-      if (result.success) {
-        console.log(chalk.green(`\n✓ Sessão ${session} completa`));
-        successfulSessions++;
-      } else {
-        console.log(chalk.yellow(`\n⚠ Sessão ${session} incompleta`));
-        failedSessions++;
-        if (result.error) {
-          console.log(chalk.red(`  Erro: ${result.error}`));
-          lastError = result.error;
+        const budgetAction = await applyBudget(feature);
+        if (budgetAction === 'stop') {
+          break;
+        }
+        if (budgetAction === 'skip') {
+          session--;
+          continue;
+        }
+
+        console.log(chalk.cyan(`\n${'═'.repeat(60)}`));
+        console.log(chalk.cyan.bold(`  Sessão ${session}: ${feature.id} - ${feature.title}`));
+        console.log(chalk.cyan(`${'═'.repeat(60)}\n`));
+
+        // Reset formatter para nova sessão
+        formatter.reset();
+
+        const agent = new CodingAgent(agentConfig, backend);
+        const result = await agent.runSession({
+          workspacePath: projectPath,
+          featureId: feature.id,
+          maxTurns,
+          supabaseProjectRef: settings.supabaseRef,
+          verify: options.verify,
+          rollback,
+          resume: true,
+          abortController: shutdown.abortController,
+          freePorts: portsToFree,
+          projectConfig: settings,
+          maxBudgetUsd: budget.getSessionLimit(feature.id),
+          onOutput: (text) => {
+            const formatted = formatter.formatText(text);
+            process.stdout.write(formatted);
+          },
+        });
+
+        budget.record(feature.id, result.totalCostUsd, result.usage);
+        if (result.totalCostUsd !== undefined || result.usage) {
+          console.log(chalk.gray(`\n  Custo da sessão: ${describeUsage(result.totalCostUsd, result.usage)}`));
+        }
+
+        if (result.featureListViolations) {
+          console.log(
+            chalk.yellow(`\n⚠ ${result.featureListViolations.length} alteração(ões) fora do escopo revertida(s) em feature_list.json`)
+          );
+        }
+        for (const killed of result.killedProcesses ?? []) {
+          console.log(chalk.gray(`  Processo encerrado: ${describeKilledProcess(killed)}`));
+        }
+        for (const denial of result.deniedToolCalls ?? []) {
+          console.log(chalk.yellow(`  Negada: ${describeToolDenial(denial)}`));
+        }
+
+        if (result.interrupted) {
+          console.log(chalk.yellow(`\n⏹ Sessão ${session} interrompida: ${feature.id} voltou para a fila`));
+          interruptedFeatures.push(feature.id);
+          break;
+        }
+
+        if (result.usageLimit) {
+          await waitForUsageLimit(result.usageLimit);
+          resumeFeatureId = feature.id;
+          // As primeiras esperas seguidas não gastam sessão; depois contam para --max
+          if (limitHits <= FREE_LIMIT_HITS) {
+            session--;
+          } else {
+            console.log(chalk.yellow(`  ${limitHits} limites seguidos: esta sessão conta para --max`));
+          }
+          continue;
+        }
+        limitHits = 0;
+
+        if (result.success) {
+          console.log(chalk.green(`\n✓ Sessão ${session} completa`));
+          successfulSessions++;
+          attempts.recordSuccess(feature.id);
+        } else {
+          const failures = attempts.recordFailure(feature.id);
+          console.log(
+            chalk.yellow(`\n⚠ Sessão ${session} incompleta (tentativa ${failures}/${retryPolicy.maxAttempts} de ${feature.id})`)
+          );
+          failedSessions++;
+          if (result.error) {
+            console.log(chalk.red(`  Erro: ${result.error}`));
+            lastError = result.error;
+          }
+
+          // Feature travada: escalar conforme a política
+          if (attempts.isStuck(feature.id)) {
+            const escalation = await escalateStuckFeature(
+              projectPath,
+              feature,
+              retryPolicy.onStuck,
+              failures,
+              result.error,
+              backend,
+              agentConfig,
+              settings
+            );
+            escalations.push(escalation);
+            console.log(chalk.magenta(`\n⚑ ${describeEscalation(escalation)}`));
+
+            if (escalation.action === 'stop') {
+              stoppedReason = 'stuck';
+              break;
+            }
+            continue;
+          }
         }
-      }
 
-      // Pequeno delay entre sessões
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+        // Espera entre sessões (backoff exponencial enquanto a mesma feature falha)
+        const delay = attempts.getDelay(feature.id);
+        if (delay > retryPolicy.baseDelayMs) {
+          console.log(chalk.gray(`  Aguardando ${formatDuration(delay)} antes de tentar novamente...`));
+        }
+        await shutdown.wait(delay);
+      }
+      if (shutdown.requested) {
+        stoppedReason = 'interrupted';
+      }
     }
 
     // Status final
     const stats = await contextBuilder.getProgressStats();
     console.log(chalk.cyan(`\n${'═'.repeat(60)}`));
-    console.log(chalk.cyan.bold('  Status Final'));
+    console.log(chalk.cyan.bold(shutdown.requested ? '  Status Parcial (loop interrompido)' : '  Status Final'));
     console.log(chalk.cyan(`${'═'.repeat(60)}`));
     console.log(
       chalk.gray(
         `  Sessões: ${session}\n  Completas: ${stats.completed}/${stats.total} features (${stats.percentage}%)`
       )
     );
+    const spent = budget.totals;
+    if (spent.sessions > 0) {
+      console.log(chalk.gray(`  Custo: $${spent.costUsd.toFixed(2)} · ${formatTokens(spent.tokens)} tokens`));
+    }
+    if (overBudget.length > 0) {
+      console.log(chalk.yellow(`  Bloqueadas por orçamento: ${overBudget.join(', ')}`));
+    }
+    if (escalations.length > 0) {
+      console.log(chalk.magenta(`\n  Features travadas (${escalations.length}):`));
+      for (const escalation of escalations) {
+        console.log(chalk.gray(`    ⚑ ${describeEscalation(escalation)}`));
+      }
+    }
+    if (interruptedFeatures.length > 0) {
+      console.log(chalk.yellow(`  Interrompidas: ${interruptedFeatures.join(', ')} (retomadas no próximo harness loop ou harness run --resume)`));
+    }
     console.log(chalk.cyan(`${'═'.repeat(60)}\n`));
 
     // Enviar notificação por e-mail se configurado
     if (shouldNotify) {
       const featureList = await contextBuilder.loadFeatureList();
-      const notifier = getEmailNotifier();
+      const notifier = getEmailNotifier(settings.notifications.to);
       const sent = await notifier.notifyLoopCompletion({
         type: 'loop',
         projectName: featureList?.project_name || 'Projeto',
@@ -996,12 +2307,82 @@ program
         duration: Date.now() - startTime,
         stoppedReason,
         lastError,
+        escalations,
+        interruptedFeatures,
+        totalCostUsd: spent.costUsd,
+        totalTokens: spent.tokens,
       });
 
       if (sent) {
         console.log(chalk.gray('📧 Notificação enviada por e-mail'));
       }
     }
+
+    shutdown.uninstall();
+    if (shutdown.requested) {
+      process.exit(shutdown.exitCode);
+    }
+  });
+
+// ============================================
+// Comando CONFIG
+// ============================================
+const SOURCE_LABELS: Record<SettingSource, string> = {
+  default: 'padrão',
+  user: 'usuário',
+  project: 'projeto',
+  env: 'ambiente',
+  cli: 'linha de comando',
+};
+
+// Valores longos (listas de comandos, servidores MCP) cortados em uma linha
+function formatSettingValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+function describeSettingSource(key: string, source: SettingSource): string {
+  if (source === 'env') {
+    const variable = Object.keys(SETTING_ENV_VARS).find((name) => SETTING_ENV_VARS[name] === key);
+    return `${SOURCE_LABELS.env} (${variable})`;
+  }
+  return SOURCE_LABELS[source];
+}
+
+const configCommand = program
+  .command('config')
+  .description('Configuração do harness (padrões < usuário < projeto < ambiente < linha de comando)');
+
+configCommand
+  .command('show')
+  .description('Mostrar a configuração efetiva e de onde veio cada valor')
+  .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
+  .action(async (options: { project?: string }) => {
+    const projectPath = options.project ? resolve(options.project) : process.cwd();
+    const resolved = await loadSettings(projectPath);
+    const describeFile = (path: string) =>
+      existsSync(path) ? path : `${path} ${chalk.gray('(não existe)')}`;
+
+    console.log(chalk.cyan.bold('\nConfiguração efetiva\n'));
+    console.log(chalk.gray(`  Usuário: ${describeFile(resolved.files.user)}`));
+    if (resolved.files.project) {
+      console.log(chalk.gray(`  Projeto: ${describeFile(resolved.files.project)}`));
+    }
+    console.log(chalk.gray(`  Ambiente: ${Object.keys(SETTING_ENV_VARS).join(', ')}\n`));
+
+    const settings = listSettings(resolved).map((setting) => ({ ...setting, text: formatSettingValue(setting.value) }));
+    const keyWidth = Math.max(...settings.map(({ key }) => key.length));
+    const valueWidth = Math.max(...settings.map(({ text }) => text.length));
+    for (const { key, text, source } of settings) {
+      const label = describeSettingSource(key, source);
+      console.log(
+        `  ${key.padEnd(keyWidth)}  ${text.padEnd(valueWidth)}  ${source === 'default' ? chalk.gray(label) : chalk.cyan(label)}`
+      );
+    }
+    if (!resolved.settings.model) {
+      console.log(chalk.gray('\n  Sem "model": os agentes usam o modelo padrão do Claude Code'));
+    }
+    console.log('');
   });
 
 // ============================================
@@ -1009,9 +2390,13 @@ program
 // ============================================
 program
   .command('reset')
-  .description('Resetar todas as features para passes: false (mantém o código)')
+  .description('Resetar features para "pending" (mantém o código)')
   .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
-  .action(async (options: { project?: string }) => {
+  .option(
+    '--status <estados>',
+    `Resetar apenas features nesses estados, separados por vírgula (${FEATURE_STATUSES.join(', ')})`
+  )
+  .action(async (options: { project?: string; status?: string }) => {
     const projectPath = options.project
       ? resolve(options.project)
       : process.cwd();
@@ -1024,9 +2409,26 @@ program
       process.exit(1);
     }
 
+    // Filtrar por estado se especificado
+    const statuses = options.status?.split(',').map((s) => s.trim());
+    const invalidStatuses = statuses?.filter((s) => !isFeatureStatus(s)) ?? [];
+    if (invalidStatuses.length > 0) {
+      console.log(chalk.red(`✗ Estado inválido: ${invalidStatuses.join(', ')}`));
+      console.log(chalk.gray(`  Estados válidos: ${FEATURE_STATUSES.join(', ')}`));
+      process.exit(1);
+    }
+
+    const targets = featureList.features.filter(
+      (f) => f.status !== 'pending' && (!statuses || statuses.includes(f.status))
+    );
+    if (targets.length === 0) {
+      console.log(chalk.gray('Nenhuma feature para resetar'));
+      process.exit(0);
+    }
+
     const answer = await askUser(
       chalk.yellow(
-        'Isso vai resetar todas as features para incompletas. Continuar? [s/N]: '
+        `Isso vai resetar ${targets.length} feature(s) para "pending". Continuar? [s/N]: `
       )
     );
 
@@ -1035,12 +2437,48 @@ program
       process.exit(0);
     }
 
-    for (const feature of featureList.features) {
-      feature.passes = false;
+    for (const feature of targets) {
+      feature.status = 'pending';
     }
 
     await contextBuilder.saveFeatureList(featureList);
-    console.log(chalk.green('✓ Todas as features resetadas para incompletas'));
+    console.log(chalk.green(`✓ ${targets.length} feature(s) resetada(s) para "pending"`));
+  });
+
+// ============================================
+// Comando MARK
+// ============================================
+program
+  .command('mark <featureId> <estado>')
+  .description('Alterar manualmente o estado de uma feature (ex: skipped, blocked, pending)')
+  .option('-p, --project <path>', 'Caminho do projeto (padrão: diretório atual)')
+  .action(async (featureId: string, status: string, options: { project?: string }) => {
+    const projectPath = options.project
+      ? resolve(options.project)
+      : process.cwd();
+
+    if (!isFeatureStatus(status)) {
+      console.log(chalk.red(`✗ Estado inválido: ${status}`));
+      console.log(chalk.gray(`  Estados válidos: ${FEATURE_STATUSES.join(', ')}`));
+      process.exit(1);
+    }
+
+    const contextBuilder = new ContextBuilder(projectPath);
+    const featureList = await contextBuilder.loadFeatureList();
+    const feature = featureList?.features.find((f) => f.id === featureId);
+
+    if (!feature) {
+      console.log(chalk.red(`✗ Feature ${featureId} não encontrada`));
+      process.exit(1);
+    }
+
+    if (feature.status !== status && !canTransition(feature.status, status)) {
+      console.log(chalk.red(`✗ Transição não permitida: ${feature.status} → ${status}`));
+      process.exit(1);
+    }
+
+    await contextBuilder.setFeatureStatus(featureId, status);
+    console.log(chalk.green(`✓ ${featureId}: ${feature.status} → ${status}`));
   });
 
 // ============================================
@@ -0,0 +1,201 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { isAbsolute, join } from 'node:path';
+import { detectPackageManager, runCommand, type PackageManager } from './verification.js';
+import type {
+  AcceptanceCheck,
+  AcceptanceCriterion,
+  AcceptanceReport,
+  CriterionResult,
+  Feature,
+} from '../types/index.js';
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface AcceptanceCheckOptions {
+  timeoutMs?: number | undefined;
+  onProgress?: ((message: string) => void) | undefined;
+  /** Added to the commands' environment */
+  env?: Record<string, string> | undefined;
+}
+
+export function getCriterionDescription(criterion: AcceptanceCriterion): string {
+  return typeof criterion === 'string' ? criterion : criterion.description;
+}
+
+export function getCriterionCheck(criterion: AcceptanceCriterion): AcceptanceCheck | undefined {
+  return typeof criterion === 'string' ? undefined : criterion.check;
+}
+
+export function isAcceptanceCheck(value: unknown): value is AcceptanceCheck {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const check = value as Record<string, unknown>;
+  const isOptional = (key: string, type: string) =>
+    check[key] === undefined || typeof check[key] === type;
+
+  switch (check['type']) {
+    case 'command':
+      return typeof check['command'] === 'string' && isOptional('expected_exit_code', 'number');
+    case 'file_exists':
+      return typeof check['path'] === 'string';
+    case 'file_matches':
+      return (
+        typeof check['path'] === 'string' &&
+        typeof check['pattern'] === 'string' &&
+        isOptional('flags', 'string')
+      );
+    case 'test':
+      return typeof check['name'] === 'string' && isOptional('command', 'string');
+    default:
+      return false;
+  }
+}
+
+export function isAcceptanceCriterion(value: unknown): value is AcceptanceCriterion {
+  if (typeof value === 'string') {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { description, check } = value as Record<string, unknown>;
+  return typeof description === 'string' && (check === undefined || isAcceptanceCheck(check));
+}
+
+/**
+ * Evaluate the criteria of a feature that carry a check.
+ * Returns null when the feature has none.
+ */
+export async function evaluateAcceptanceCriteria(
+  projectPath: string,
+  feature: Feature,
+  options: AcceptanceCheckOptions = {}
+): Promise<AcceptanceReport | null> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const packageManager = detectPackageManager(projectPath);
+  const results: CriterionResult[] = [];
+
+  for (const [index, criterion] of feature.acceptance_criteria.entries()) {
+    const check = getCriterionCheck(criterion);
+    if (!check) continue;
+
+    const description = getCriterionDescription(criterion);
+    options.onProgress?.(`Checking criterion: ${description}`);
+
+    const { passed, output } = await runCheck(projectPath, check, packageManager, timeoutMs, options.env);
+    results.push({ index, description, check, passed, output });
+  }
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  const met = results.filter((r) => r.passed).length;
+  return {
+    passed: met === results.length,
+    met,
+    total: results.length,
+    results,
+  };
+}
+
+/**
+ * Describe failed criteria for the agent prompt
+ */
+export function formatAcceptanceFailures(report: AcceptanceReport): string {
+  return report.results
+    .filter((r) => !r.passed)
+    .map((r) => {
+      const lines = [`- ${r.description}`, `  ${describeCheck(r.check)}`];
+      if (r.output) {
+        lines.push(...r.output.split('\n').map((line) => `  ${line}`));
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+export function describeCheck(check: AcceptanceCheck): string {
+  switch (check.type) {
+    case 'command':
+      return `command: ${check.command} (exit ${check.expected_exit_code ?? 0})`;
+    case 'file_exists':
+      return `file exists: ${check.path}`;
+    case 'file_matches':
+      return `file ${check.path} matches /${check.pattern}/${check.flags ?? ''}`;
+    case 'test':
+      return `test passes: ${check.name}`;
+  }
+}
+
+async function runCheck(
+  projectPath: string,
+  check: AcceptanceCheck,
+  packageManager: PackageManager,
+  timeoutMs: number,
+  env: Record<string, string> | undefined
+): Promise<{ passed: boolean; output?: string }> {
+  const resolvePath = (path: string) => (isAbsolute(path) ? path : join(projectPath, path));
+
+  switch (check.type) {
+    case 'command':
+    case 'test': {
+      const command = check.type === 'command'
+        ? check.command
+        : check.command ?? buildTestCommand(packageManager, check.name);
+      const expected = check.type === 'command' ? check.expected_exit_code ?? 0 : 0;
+
+      const result = await runCommand(projectPath, { name: check.type, command }, timeoutMs, env);
+      if (result.timedOut) {
+        return { passed: false, output: `Timed out after ${timeoutMs}ms\n${result.output}` };
+      }
+      return result.exitCode === expected
+        ? { passed: true }
+        : { passed: false, output: `Exit code ${result.exitCode}, expected ${expected}\n${result.output}` };
+    }
+
+    case 'file_exists':
+      return existsSync(resolvePath(check.path))
+        ? { passed: true }
+        : { passed: false, output: `${check.path} not found` };
+
+    case 'file_matches': {
+      const path = resolvePath(check.path);
+      if (!existsSync(path)) {
+        return { passed: false, output: `${check.path} not found` };
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(check.pattern, check.flags ?? 'm');
+      } catch (error) {
+        return { passed: false, output: `Invalid pattern: ${error instanceof Error ? error.message : error}` };
+      }
+
+      let content: string;
+      try {
+        content = await readFile(path, 'utf-8');
+      } catch (error) {
+        return { passed: false, output: `Cannot read ${check.path}: ${error instanceof Error ? error.message : error}` };
+      }
+      return regex.test(content)
+        ? { passed: true }
+        : { passed: false, output: `No match for /${check.pattern}/ in ${check.path}` };
+    }
+  }
+}
+
+/**
+ * Run a single test by name (jest/vitest -t)
+ */
+function buildTestCommand(packageManager: PackageManager, name: string): string {
+  const quoted = JSON.stringify(name);
+  // npm needs `--` to forward flags to the script
+  return packageManager === 'npm'
+    ? `npm test -- -t ${quoted}`
+    : `${packageManager} test -t ${quoted}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Daily window in which sessions may start, in local time.
+ * Minutes since midnight; a window with start > end wraps past midnight.
+ */
+export interface ActiveHours {
+  start: number;
+  end: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse "22-6", "09:00-18:00" or "22:30-06:15".
+ * Throws on anything else.
+ */
+export function parseActiveHours(value: string): ActiveHours {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match?.[1] || !match[3]) {
+    throw new Error(`Invalid active hours "${value}" (expected HH:MM-HH:MM)`);
+  }
+
+  const toMinutes = (hours: string, minutes: string | undefined) => {
+    const h = Number(hours);
+    const m = Number(minutes ?? 0);
+    if (h > 24 || m > 59 || (h === 24 && m > 0)) {
+      throw new Error(`Invalid time in active hours "${value}"`);
+    }
+    return (h * 60 + m) % MINUTES_PER_DAY;
+  };
+
+  const start = toMinutes(match[1], match[2]);
+  const end = toMinutes(match[3], match[4]);
+  if (start === end) {
+    throw new Error(`Active hours "${value}" start and end at the same time`);
+  }
+  return { start, end };
+}
+
+export function isWithinActiveHours(window: ActiveHours, now: Date = new Date()): boolean {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return window.start < window.end
+    ? minutes >= window.start && minutes < window.end
+    : minutes >= window.start || minutes < window.end;
+}
+
+/**
+ * Milliseconds until the window opens (0 when already inside it)
+ */
+export function getMsUntilActiveHours(window: ActiveHours, now: Date = new Date()): number {
+  if (isWithinActiveHours(window, now)) {
+    return 0;
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const deltaMinutes = (window.start - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return deltaMinutes * 60_000 - now.getSeconds() * 1000 - now.getMilliseconds();
+}
+
+export function formatActiveHours(window: ActiveHours): string {
+  const format = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return `${format(window.start)}-${format(window.end)}`;
+}
@@ -0,0 +1,67 @@
+import {
+  buildMCPServers,
+  runAgentQuery,
+  type AgentQueryOptions,
+  type AgentQueryResult,
+} from './agent-sdk-client.js';
+import { ClaudeCodeClient } from './claude-code-client.js';
+import type { AgentConfig } from '../types/index.js';
+
+export type AgentBackendName = 'sdk' | 'cli' | 'scripted';
+
+export const AGENT_BACKENDS: readonly AgentBackendName[] = ['sdk', 'cli', 'scripted'];
+
+export function isAgentBackendName(value: string): value is AgentBackendName {
+  return (AGENT_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Whatever runs the agent: every agent sends its queries through one of these
+ */
+export interface AgentBackend {
+  readonly name: AgentBackendName;
+  runQuery(options: AgentQueryOptions): Promise<AgentQueryResult>;
+}
+
+/**
+ * Claude Agent SDK (default)
+ */
+export class SdkAgentBackend implements AgentBackend {
+  readonly name = 'sdk';
+
+  runQuery(options: AgentQueryOptions): Promise<AgentQueryResult> {
+    return runAgentQuery(options);
+  }
+}
+
+/**
+ * Claude Code CLI, through ClaudeCodeClient (stream-json output)
+ */
+export class ClaudeCodeBackend implements AgentBackend {
+  readonly name = 'cli';
+  private client: ClaudeCodeClient;
+
+  constructor(config: AgentConfig) {
+    this.client = new ClaudeCodeClient(config);
+  }
+
+  runQuery(options: AgentQueryOptions): Promise<AgentQueryResult> {
+    return this.client.run(options.prompt, {
+      systemPrompt: options.systemPrompt,
+      workingDirectory: options.workingDirectory,
+      model: options.model,
+      maxTurns: options.maxTurns,
+      maxBudgetUsd: options.maxBudgetUsd,
+      // Same default as runAgentQuery
+      mcpServers: options.mcpServers ?? buildMCPServers(),
+      onOutput: options.onText,
+      onMessage: options.onMessage,
+      resumeSessionId: options.resumeSessionId,
+      signal: options.abortController?.signal,
+      env: options.env,
+      // The path guard and command rules need a permission callback, which the CLI doesn't offer
+      allowedTools: options.toolPolicy?.allow,
+      disallowedTools: options.toolPolicy?.deny,
+    });
+  }
+}
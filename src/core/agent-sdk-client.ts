@@ -1,5 +1,23 @@
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import type { SDKMessage, SDKAssistantMessage, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { classifyUsageLimit } from './usage-limits.js';
+import { ContextBuilder } from './context-builder.js';
+import { DEFAULT_WRITABLE_PATHS } from './path-guard.js';
+import { getHarnessDir } from './harness-dir.js';
+import {
+  createCanUseTool,
+  isGuarded,
+  type ToolApprover,
+  type ToolGuard,
+} from './permission-policy.js';
+import type {
+  CommandPolicy,
+  SandboxOptions,
+  TokenUsage,
+  ToolDenial,
+  ToolPolicy,
+  UsageLimit,
+} from '../types/index.js';
 
 /**
  * MCP Server configuration for stdio-based servers (local processes)
@@ -28,15 +46,39 @@ export interface AgentQueryOptions {
   prompt: string;
   systemPrompt: string;
   workingDirectory: string;
+  /** Claude model (default: Claude Code's own default) */
+  model?: string | undefined;
   maxTurns?: number | undefined;
+  /** Stop the session once it has cost this much */
+  maxBudgetUsd?: number | undefined;
   onMessage?: ((message: SDKMessage) => void) | undefined;
   onText?: ((text: string) => void) | undefined;
   mcpServers?: Record<string, MCPServerConfig> | undefined;
+  /** Continue this earlier session; the prompt becomes its next user message */
+  resumeSessionId?: string | undefined;
+  /** Aborting it stops the session; the result is then a failure */
+  abortController?: AbortController | undefined;
+  /** Tools the agent may use (default: all, with permissions bypassed) */
+  toolPolicy?: ToolPolicy | undefined;
+  /** Writes outside the working directory are denied unless disabled here */
+  sandbox?: SandboxOptions | undefined;
+  /** Read-only for the agent besides the working directory's .harness/ (e.g. the main checkout's, from a worktree) */
+  readOnlyPaths?: string[] | undefined;
+  /** Project changes to the Bash command rules (the built-in ones apply without it) */
+  commandPolicy?: CommandPolicy | undefined;
+  /** Added to the environment of the agent and of every command it runs */
+  env?: Record<string, string> | undefined;
+  /** Asked before each tool call the guard allows (supervised runs) */
+  approveToolCall?: ToolApprover | undefined;
+  /** Called when the tool policy, the command rules or the path guard deny a tool call */
+  onToolDenied?: ((denial: ToolDenial) => void) | undefined;
 }
 
 export interface MCPBuildOptions {
   /** Supabase project ref (overrides SUPABASE_PROJECT_REF env var) */
   supabaseProjectRef?: string | undefined;
+  /** Servers from the harness config: added to the built-in ones, or removing one with null */
+  servers?: Record<string, MCPServerConfig | null> | undefined;
 }
 
 /**
@@ -81,6 +123,14 @@ export function buildMCPServers(options?: MCPBuildOptions): Record<string, MCPSe
     };
   }
 
+  for (const [name, server] of Object.entries(options?.servers ?? {})) {
+    if (server) {
+      servers[name] = server;
+    } else {
+      delete servers[name];
+    }
+  }
+
   return servers;
 }
 
@@ -101,6 +151,9 @@ export interface AgentQueryResult {
   error?: string | undefined;
   totalCostUsd?: number | undefined;
   numTurns?: number | undefined;
+  usage?: TokenUsage | undefined;
+  /** The session failed because of a rate or usage limit, not the task */
+  usageLimit?: UsageLimit | undefined;
 }
 
 /**
@@ -112,17 +165,21 @@ export async function runAgentQuery(options: AgentQueryOptions): Promise<AgentQu
     prompt,
     systemPrompt,
     workingDirectory,
+    model,
     maxTurns = 50,
+    maxBudgetUsd,
     onMessage,
     onText,
     mcpServers = buildMCPServers(),
+    resumeSessionId,
+    abortController,
+    onToolDenied,
+    env,
   } = options;
 
-  let output = '';
-  let success = false;
-  let error: string | undefined;
-  let totalCostUsd: number | undefined;
-  let numTurns: number | undefined;
+  const guard = await createToolGuard(options);
+
+  const collector = new QueryResultCollector({ onText, maxBudgetUsd });
 
   try {
     const queryResult = query({
@@ -130,14 +187,28 @@ export async function runAgentQuery(options: AgentQueryOptions): Promise<AgentQu
       options: {
         systemPrompt,
         cwd: workingDirectory,
+        ...(env ? { env: { ...process.env, ...env } } : {}),
         maxTurns,
         // Use Claude Code's default tools
         tools: { type: 'preset', preset: 'claude_code' },
-        // Bypass permissions for autonomous operation
-        permissionMode: 'bypassPermissions',
-        allowDangerouslySkipPermissions: true,
+        // Bypass permissions for autonomous operation, unless the tool policy
+        // or the path guard applies: then every call goes through the guard
+        ...(isGuarded(guard)
+          ? {
+              permissionMode: 'default' as const,
+              canUseTool: createCanUseTool(guard, onToolDenied),
+              ...(guard.policy?.deny ? { disallowedTools: guard.policy.deny } : {}),
+            }
+          : {
+              permissionMode: 'bypassPermissions' as const,
+              allowDangerouslySkipPermissions: true,
+            }),
         // MCP servers for extended capabilities (shadcn/ui, etc.)
         mcpServers,
+        ...(model ? { model } : {}),
+        ...(maxBudgetUsd !== undefined ? { maxBudgetUsd } : {}),
+        ...(resumeSessionId ? { resume: resumeSessionId } : {}),
+        ...(abortController ? { abortController } : {}),
       },
     });
 
@@ -146,54 +217,156 @@ export async function runAgentQuery(options: AgentQueryOptions): Promise<AgentQu
       if (onMessage) {
         onMessage(message);
       }
+      collector.handle(message);
+    }
 
-      // Handle assistant messages (Claude's responses)
-      if (message.type === 'assistant') {
-        const assistantMsg = message as SDKAssistantMessage;
-        for (const block of assistantMsg.message.content) {
-          if (block.type === 'text') {
-            output += block.text;
-            if (onText) {
-              onText(block.text);
-            }
+    return collector.getResult();
+  } catch (err) {
+    return collector.fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * What the permission layer enforces for a query: the agent's tool policy,
+ * the Bash command rules, writes limited to the working directory and the
+ * sandbox's paths, the harness state kept out of reach (its config holds
+ * these very rules), and the approver of a supervised run
+ */
+export async function createToolGuard(options: AgentQueryOptions): Promise<ToolGuard> {
+  const { workingDirectory, toolPolicy, sandbox, readOnlyPaths, commandPolicy, approveToolCall } = options;
+  return {
+    cwd: workingDirectory,
+    policy: toolPolicy,
+    writableRoots: sandbox?.enabled === false
+      ? undefined
+      : [workingDirectory, ...DEFAULT_WRITABLE_PATHS, ...(sandbox?.allowedPaths ?? [])],
+    readOnlyPaths: [getHarnessDir(workingDirectory), ...(readOnlyPaths ?? [])],
+    commands: commandPolicy,
+    baseCommit: await new ContextBuilder(workingDirectory).getHeadCommit(),
+    approve: approveToolCall,
+  };
+}
+
+export interface QueryResultCollectorOptions {
+  onText?: ((text: string) => void) | undefined;
+  /** Only used to explain an error_max_budget_usd result */
+  maxBudgetUsd?: number | undefined;
+}
+
+/**
+ * Turns a stream of SDK messages into an AgentQueryResult.
+ * Shared by every backend that emits SDK messages (the SDK itself and the
+ * Claude Code CLI in stream-json mode).
+ */
+export class QueryResultCollector {
+  private onText: ((text: string) => void) | undefined;
+  private maxBudgetUsd: number | undefined;
+  private output = '';
+  private success = false;
+  private error: string | undefined;
+  private totalCostUsd: number | undefined;
+  private numTurns: number | undefined;
+  private usage: TokenUsage | undefined;
+  // Text of an assistant message flagged as rate limited
+  private rateLimitText: string | undefined;
+  private resultSeen = false;
+
+  constructor(options: QueryResultCollectorOptions = {}) {
+    this.onText = options.onText;
+    this.maxBudgetUsd = options.maxBudgetUsd;
+  }
+
+  /**
+   * Whether the final result message has arrived
+   */
+  get hasResult(): boolean {
+    return this.resultSeen;
+  }
+
+  handle(message: SDKMessage): void {
+    // Handle assistant messages (Claude's responses)
+    if (message.type === 'assistant') {
+      const assistantMsg = message as SDKAssistantMessage;
+      for (const block of assistantMsg.message.content) {
+        if (block.type === 'text') {
+          this.output += block.text;
+          if (this.onText) {
+            this.onText(block.text);
+          }
+          if (assistantMsg.error === 'rate_limit') {
+            this.rateLimitText = block.text;
           }
         }
       }
+    }
 
-      // Handle result messages (final outcome)
-      if (message.type === 'result') {
-        const resultMsg = message as SDKResultMessage;
-        totalCostUsd = resultMsg.total_cost_usd;
-        numTurns = resultMsg.num_turns;
+    // Handle result messages (final outcome)
+    if (message.type === 'result') {
+      const resultMsg = message as SDKResultMessage;
+      this.resultSeen = true;
+      this.totalCostUsd = resultMsg.total_cost_usd;
+      this.numTurns = resultMsg.num_turns;
+      this.usage = {
+        inputTokens: resultMsg.usage.input_tokens,
+        outputTokens: resultMsg.usage.output_tokens,
+        cacheCreationInputTokens: resultMsg.usage.cache_creation_input_tokens,
+        cacheReadInputTokens: resultMsg.usage.cache_read_input_tokens,
+      };
 
-        if (resultMsg.subtype === 'success') {
-          success = true;
-          if (resultMsg.result) {
-            output = resultMsg.result;
-          }
-        } else {
-          success = false;
-          if ('errors' in resultMsg && resultMsg.errors) {
-            error = resultMsg.errors.join('\n');
-          }
+      if (resultMsg.subtype === 'success' && resultMsg.is_error) {
+        // e.g. the API refused the request (usage limit): the result text is the error
+        this.success = false;
+        this.error = resultMsg.result || 'Session ended with an error';
+      } else if (resultMsg.subtype === 'success') {
+        this.success = true;
+        if (resultMsg.result) {
+          this.output = resultMsg.result;
+        }
+      } else {
+        this.success = false;
+        if ('errors' in resultMsg && resultMsg.errors) {
+          this.error = resultMsg.errors.join('\n');
+        }
+        if (resultMsg.subtype === 'error_max_budget_usd') {
+          this.error = `Session budget of $${this.maxBudgetUsd?.toFixed(2)} exceeded${this.error ? `: ${this.error}` : ''}`;
         }
       }
     }
+  }
 
+  getResult(): AgentQueryResult {
     const result: AgentQueryResult = {
-      success,
-      output,
+      success: this.success,
+      output: this.output,
     };
-    if (error !== undefined) result.error = error;
-    if (totalCostUsd !== undefined) result.totalCostUsd = totalCostUsd;
-    if (numTurns !== undefined) result.numTurns = numTurns;
+    if (this.error !== undefined) result.error = this.error;
+    if (this.totalCostUsd !== undefined) result.totalCostUsd = this.totalCostUsd;
+    if (this.numTurns !== undefined) result.numTurns = this.numTurns;
+    if (this.usage !== undefined) result.usage = this.usage;
+    if (!this.success) {
+      const usageLimit = classifyUsageLimit(this.rateLimitText ?? this.error ?? '', {
+        rateLimited: this.rateLimitText !== undefined,
+      });
+      if (usageLimit) result.usageLimit = usageLimit;
+    }
     return result;
-  } catch (err) {
+  }
+
+  /**
+   * Result for a session that broke off before its result message
+   */
+  fail(message: string): AgentQueryResult {
     return {
       success: false,
-      output,
-      error: err instanceof Error ? err.message : String(err),
-    } as AgentQueryResult;
+      output: this.output,
+      error: message,
+      totalCostUsd: this.totalCostUsd,
+      numTurns: this.numTurns,
+      usage: this.usage,
+      usageLimit: classifyUsageLimit(this.rateLimitText ?? message, {
+        rateLimited: this.rateLimitText !== undefined,
+      }) ?? undefined,
+    };
   }
 }
 
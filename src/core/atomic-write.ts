@@ -0,0 +1,17 @@
+import { rename, rm, writeFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Write a file through a temporary file and a rename, so a process killed
+ * mid-write leaves either the old content or the new one, never half of it
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tmpPath = `${path}.${randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await writeFile(tmpPath, content, 'utf-8');
+    await rename(tmpPath, path);
+  } catch (error) {
+    await rm(tmpPath, { force: true });
+    throw error;
+  }
+}
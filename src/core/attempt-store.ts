@@ -0,0 +1,139 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { writeFileAtomic } from './atomic-write.js';
+import { ensureHarnessDir, getHarnessDir } from './harness-dir.js';
+import type { AttemptRecord, Feature } from '../types/index.js';
+
+// Serialize writes per file so concurrent sessions don't lose records
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Persists one record per coding session in .harness/attempts.json
+ */
+export class AttemptStore {
+  private projectPath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  get attemptsPath(): string {
+    return join(getHarnessDir(this.projectPath), 'attempts.json');
+  }
+
+  async load(): Promise<AttemptRecord[]> {
+    const path = this.attemptsPath;
+    if (!existsSync(path)) {
+      return [];
+    }
+
+    try {
+      const content = await readFile(path, 'utf-8');
+      return JSON.parse(content) as AttemptRecord[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get attempts for a feature, oldest first
+   */
+  async list(featureId: string): Promise<AttemptRecord[]> {
+    const attempts = await this.load();
+    return attempts.filter((a) => a.featureId === featureId);
+  }
+
+  async get(attemptId: string): Promise<AttemptRecord | null> {
+    const attempts = await this.load();
+    return attempts.find((a) => a.id === attemptId) ?? null;
+  }
+
+  /**
+   * Most recent attempt that was cut off (never finished, or stopped by a
+   * signal) and is still the latest attempt at its feature
+   */
+  async findInterrupted(): Promise<AttemptRecord | null> {
+    const attempts = await this.load();
+    const seen = new Set<string>();
+    for (const attempt of attempts.reverse()) {
+      if (seen.has(attempt.featureId)) continue;
+      seen.add(attempt.featureId);
+      if (attempt.outcome === 'running' || attempt.outcome === 'interrupted') {
+        return attempt;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Open a new attempt for a feature
+   */
+  async start(feature: Feature, fromCommit?: string): Promise<AttemptRecord> {
+    const record: AttemptRecord = {
+      id: `${feature.id}-${randomUUID().slice(0, 8)}`,
+      featureId: feature.id,
+      featureTitle: feature.title,
+      startedAt: new Date().toISOString(),
+      outcome: 'running',
+      commitRange: { from: fromCommit },
+    };
+
+    await this.mutate((attempts) => {
+      attempts.push(record);
+    });
+    return record;
+  }
+
+  /**
+   * Merge fields into an existing attempt
+   */
+  async update(attemptId: string, patch: Partial<AttemptRecord>): Promise<AttemptRecord | null> {
+    let updated: AttemptRecord | null = null;
+    await this.mutate((attempts) => {
+      const index = attempts.findIndex((a) => a.id === attemptId);
+      const current = attempts[index];
+      if (!current) return;
+      updated = { ...current, ...patch };
+      attempts[index] = updated;
+    });
+    return updated;
+  }
+
+  /**
+   * Close an attempt, filling in the end time and duration
+   */
+  async finish(
+    attemptId: string,
+    patch: Omit<Partial<AttemptRecord>, 'endedAt' | 'durationMs'>
+  ): Promise<AttemptRecord | null> {
+    const attempt = await this.get(attemptId);
+    if (!attempt) {
+      return null;
+    }
+
+    const endedAt = new Date();
+    return this.update(attemptId, {
+      ...patch,
+      endedAt: endedAt.toISOString(),
+      durationMs: endedAt.getTime() - new Date(attempt.startedAt).getTime(),
+    });
+  }
+
+  private async mutate(change: (attempts: AttemptRecord[]) => void): Promise<void> {
+    const path = this.attemptsPath;
+    const previous = writeQueues.get(path) ?? Promise.resolve();
+
+    const next = previous.then(async () => {
+      await ensureHarnessDir(this.projectPath);
+      const attempts = await this.load();
+      change(attempts);
+      await writeFileAtomic(path, JSON.stringify(attempts, null, 2));
+    });
+
+    // Keep the queue alive even if one write fails
+    writeQueues.set(path, next.catch(() => undefined));
+    await next;
+  }
+}
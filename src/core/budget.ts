@@ -0,0 +1,158 @@
+import type {
+  AttemptRecord,
+  BudgetExceeded,
+  BudgetLimits,
+  TokenUsage,
+} from '../types/index.js';
+
+/** Below this a session can't get anything done */
+const MIN_SESSION_BUDGET_USD = 0.01;
+
+export interface UsageTotals {
+  costUsd: number;
+  tokens: number;
+  sessions: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byFeature: Map<string, UsageTotals>;
+}
+
+/**
+ * All tokens of a session, cached ones included
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheCreationInputTokens +
+    usage.cacheReadInputTokens
+  );
+}
+
+/**
+ * 950, 12.3k, 4.56M
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Add up cost and tokens of recorded attempts, overall and per feature
+ */
+export function summarizeUsage(attempts: AttemptRecord[]): UsageSummary {
+  const summary: UsageSummary = { costUsd: 0, tokens: 0, sessions: 0, byFeature: new Map() };
+
+  for (const attempt of attempts) {
+    const costUsd = attempt.totalCostUsd ?? 0;
+    const tokens = attempt.usage ? getTotalTokens(attempt.usage) : 0;
+
+    const feature = summary.byFeature.get(attempt.featureId) ?? { costUsd: 0, tokens: 0, sessions: 0 };
+    for (const totals of [summary, feature]) {
+      totals.costUsd += costUsd;
+      totals.tokens += tokens;
+      totals.sessions++;
+    }
+    summary.byFeature.set(attempt.featureId, feature);
+  }
+
+  return summary;
+}
+
+/**
+ * Tracks spend across the sessions of one run or loop and enforces the limits.
+ *
+ * A session is not started when the average cost of the sessions so far
+ * would take it over a limit, so the loop stops between sessions instead of
+ * having the SDK cut one off halfway.
+ */
+export class BudgetTracker {
+  private limits: BudgetLimits;
+  private featureSpend: Map<string, number>;
+  private spentUsd = 0;
+  private spentTokens = 0;
+  private sessions = 0;
+
+  /**
+   * @param featureSpend - Spend per feature from earlier runs (see summarizeUsage)
+   */
+  constructor(limits: BudgetLimits, featureSpend: Map<string, number> = new Map()) {
+    this.limits = limits;
+    this.featureSpend = new Map(featureSpend);
+  }
+
+  get totals(): UsageTotals {
+    return { costUsd: this.spentUsd, tokens: this.spentTokens, sessions: this.sessions };
+  }
+
+  hasLimits(): boolean {
+    return Object.values(this.limits).some((limit) => limit !== undefined);
+  }
+
+  record(featureId: string, costUsd: number | undefined, usage: TokenUsage | undefined): void {
+    this.sessions++;
+    this.spentUsd += costUsd ?? 0;
+    this.spentTokens += usage ? getTotalTokens(usage) : 0;
+    this.featureSpend.set(featureId, (this.featureSpend.get(featureId) ?? 0) + (costUsd ?? 0));
+  }
+
+  /**
+   * Whether another session on this feature fits in the budget
+   */
+  checkBeforeSession(featureId: string): BudgetExceeded | null {
+    const { totalUsd, featureUsd, totalTokens } = this.limits;
+    const averageUsd = this.sessions > 0 ? this.spentUsd / this.sessions : 0;
+    const averageTokens = this.sessions > 0 ? this.spentTokens / this.sessions : 0;
+
+    if (totalUsd !== undefined && this.wouldExceed(this.spentUsd, averageUsd, totalUsd)) {
+      return {
+        scope: 'total',
+        message: `Budget of $${totalUsd.toFixed(2)} reached ($${this.spentUsd.toFixed(2)} spent, ~$${averageUsd.toFixed(2)} per session)`,
+      };
+    }
+
+    if (totalTokens !== undefined && this.spentTokens + averageTokens >= totalTokens) {
+      return {
+        scope: 'tokens',
+        message: `Token budget of ${formatTokens(totalTokens)} reached (${formatTokens(this.spentTokens)} used)`,
+      };
+    }
+
+    const featureSpent = this.featureSpend.get(featureId) ?? 0;
+    if (featureUsd !== undefined && this.wouldExceed(featureSpent, averageUsd, featureUsd)) {
+      return {
+        scope: 'feature',
+        message: `Feature budget of $${featureUsd.toFixed(2)} reached for ${featureId} ($${featureSpent.toFixed(2)} spent)`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Spend cap for the next session on this feature (SDK maxBudgetUsd).
+   * With concurrent sessions, the remaining total is split between them.
+   */
+  getSessionLimit(featureId: string, concurrentSessions: number = 1): number | undefined {
+    const { totalUsd, sessionUsd, featureUsd } = this.limits;
+    const caps: number[] = [];
+
+    if (sessionUsd !== undefined) {
+      caps.push(sessionUsd);
+    }
+    if (totalUsd !== undefined) {
+      caps.push((totalUsd - this.spentUsd) / Math.max(1, concurrentSessions));
+    }
+    if (featureUsd !== undefined) {
+      caps.push(featureUsd - (this.featureSpend.get(featureId) ?? 0));
+    }
+
+    return caps.length > 0 ? Math.max(MIN_SESSION_BUDGET_USD, Math.min(...caps)) : undefined;
+  }
+
+  private wouldExceed(spent: number, estimate: number, limit: number): boolean {
+    return limit - spent < MIN_SESSION_BUDGET_USD || spent + estimate > limit;
+  }
+}
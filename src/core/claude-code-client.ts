@@ -1,9 +1,12 @@
 import { exec, spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
 import { promisify } from 'node:util';
-import { writeFile, unlink, chmod } from 'node:fs/promises';
-import { tmpdir } from 'node:os';
-import { join } from 'node:path';
-import { randomUUID } from 'node:crypto';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  QueryResultCollector,
+  type AgentQueryResult,
+  type MCPServerConfig,
+} from './agent-sdk-client.js';
 import type { AgentConfig } from '../types/index.js';
 
 const execAsync = promisify(exec);
@@ -11,20 +14,38 @@ const execAsync = promisify(exec);
 export interface ClaudeCodeOptions {
   systemPrompt: string;
   workingDirectory: string;
+  /**
+   * Tools that run without asking; every other tool is denied.
+   * Without it all tools run and permissions are bypassed, as in the SDK path.
+   */
   allowedTools?: string[] | undefined;
+  /** Tools that are never available, whatever allowedTools says */
+  disallowedTools?: string[] | undefined;
   onOutput?: ((text: string) => void) | undefined;
+  onMessage?: ((message: SDKMessage) => void) | undefined;
+  /** Claude model (--model); the CLI's default without it */
+  model?: string | undefined;
   maxTurns?: number | undefined;
+  /** Stop the session once it has cost this much */
+  maxBudgetUsd?: number | undefined;
+  mcpServers?: Record<string, MCPServerConfig> | undefined;
+  /** Continue this earlier session (--resume) */
+  resumeSessionId?: string | undefined;
+  /** Stops the CLI (SIGINT, like Ctrl-C) when aborted */
+  signal?: AbortSignal | undefined;
+  /** Added to the environment of the CLI (and of the commands it runs) */
+  env?: Record<string, string> | undefined;
 }
 
-export interface ClaudeCodeResult {
-  success: boolean;
-  output: string;
-  error?: string | undefined;
-}
+export type ClaudeCodeResult = AgentQueryResult;
 
 /**
  * Client that uses Claude Code CLI as the backend.
  * This leverages your Claude Max subscription instead of API credits.
+ *
+ * The CLI runs in print mode with stream-json output, which carries the same
+ * message types as the Agent SDK, so results (cost, turns, usage limits) are
+ * read the same way.
  */
 export class ClaudeCodeClient {
   private config: AgentConfig;
@@ -35,112 +56,149 @@ export class ClaudeCodeClient {
 
   /**
    * Run Claude Code with the given prompt and options.
-   * Creates a temp script to handle complex prompts properly.
+   * The prompt goes through stdin so its size isn't limited by the command line.
    */
   async run(
     prompt: string,
     options: ClaudeCodeOptions
   ): Promise<ClaudeCodeResult> {
     const {
-      systemPrompt,
       workingDirectory,
       onOutput,
+      onMessage,
+      maxBudgetUsd,
+      signal,
+      env,
     } = options;
 
-    // Create temp files
-    const tempId = randomUUID().slice(0, 8);
-    const systemPromptFile = join(tmpdir(), `claude-sys-${tempId}.txt`);
-    const promptFile = join(tmpdir(), `claude-prompt-${tempId}.txt`);
-    const scriptFile = join(tmpdir(), `claude-run-${tempId}.sh`);
-
-    try {
-      // Write prompts to temp files
-      await writeFile(systemPromptFile, systemPrompt, 'utf-8');
-      await writeFile(promptFile, prompt, 'utf-8');
-
-      // Create a bash script that runs claude
-      // Note: Remove --dangerously-skip-permissions if you want tool approval prompts
-      const script = `#!/bin/bash
-set -e
-cd "${workingDirectory}"
-SYSTEM_PROMPT=$(cat "${systemPromptFile}")
-USER_PROMPT=$(cat "${promptFile}")
-exec claude --print --output-format text --append-system-prompt "$SYSTEM_PROMPT" "$USER_PROMPT"
-`;
-      await writeFile(scriptFile, script, 'utf-8');
-      await chmod(scriptFile, 0o755);
-
-      if (onOutput) {
-        onOutput('[Harness] Starting Claude Code session...\n');
-      }
+    const collector = new QueryResultCollector({ onText: onOutput, maxBudgetUsd });
+
+    // A nested claude process shares the parent's session state and hangs or fails
+    if (await isInsideClaudeSession()) {
+      return collector.fail(
+        'Refusing to start Claude Code inside another Claude Code session; run the harness from a regular terminal or use the sdk backend'
+      );
+    }
+
+    if (signal?.aborted) {
+      return collector.fail('Session aborted before it started');
+    }
 
-      return new Promise((resolve) => {
-        const proc = spawn('bash', [scriptFile], {
-          cwd: workingDirectory,
-          stdio: ['pipe', 'pipe', 'pipe'],
-          env: process.env,
-        });
-
-        let output = '';
-        let errorOutput = '';
-
-        proc.stdout.on('data', (data: Buffer) => {
-          const text = data.toString();
-          output += text;
-          if (onOutput) {
-            onOutput(text);
-          }
-        });
-
-        proc.stderr.on('data', (data: Buffer) => {
-          const text = data.toString();
-          errorOutput += text;
-        });
-
-        proc.on('close', async (code) => {
-          await this.cleanupTempFiles(systemPromptFile, promptFile, scriptFile);
-
-          if (code === 0) {
-            resolve({
-              success: true,
-              output: output.trim(),
-            });
-          } else {
-            resolve({
-              success: false,
-              output: output.trim(),
-              error: errorOutput || `Process exited with code ${code}`,
-            });
-          }
-        });
-
-        proc.on('error', async (err) => {
-          await this.cleanupTempFiles(systemPromptFile, promptFile, scriptFile);
-          resolve({
-            success: false,
-            output: '',
-            error: `Failed to run script: ${err.message}`,
-          });
-        });
+    return new Promise((resolve) => {
+      const proc = spawn('claude', this.buildArgs(options), {
+        cwd: workingDirectory,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env, ...env },
       });
-    } catch (error) {
-      await this.cleanupTempFiles(systemPromptFile, promptFile, scriptFile);
-      return {
-        success: false,
-        output: '',
-        error: `Setup failed: ${error instanceof Error ? error.message : String(error)}`,
+
+      // The CLI handles SIGINT like Ctrl-C: it stops the turn and shuts down its MCP servers
+      const abort = () => proc.kill('SIGINT');
+      signal?.addEventListener('abort', abort, { once: true });
+
+      let errorOutput = '';
+      // Lines that aren't JSON (warnings printed by the CLI)
+      let plainOutput = '';
+
+      const lines = createInterface({ input: proc.stdout });
+      lines.on('line', (line) => {
+        if (!line.trim()) return;
+        let message: SDKMessage;
+        try {
+          message = JSON.parse(line) as SDKMessage;
+        } catch {
+          plainOutput += `${line}\n`;
+          return;
+        }
+        if (onMessage) {
+          onMessage(message);
+        }
+        collector.handle(message);
+      });
+
+      proc.stderr.on('data', (data: Buffer) => {
+        errorOutput += data.toString();
+      });
+
+      // Resolve once stdout is fully read, not just when the process exits
+      let exitCode: number | null = null;
+      const finish = () => {
+        signal?.removeEventListener('abort', abort);
+        if (signal?.aborted && !collector.hasResult) {
+          resolve(collector.fail('Session aborted'));
+          return;
+        }
+        if (collector.hasResult) {
+          resolve(collector.getResult());
+          return;
+        }
+        const details = (errorOutput || plainOutput).trim();
+        resolve(collector.fail(details || `Claude Code exited with code ${exitCode}`));
       };
-    }
+      let pending = 2;
+      const done = () => {
+        if (--pending === 0) finish();
+      };
+      lines.on('close', done);
+      proc.on('close', (code) => {
+        exitCode = code;
+        done();
+      });
+
+      proc.on('error', (err) => {
+        signal?.removeEventListener('abort', abort);
+        lines.close();
+        resolve(collector.fail(`Failed to start Claude Code: ${err.message}`));
+      });
+
+      proc.stdin.on('error', () => {
+        // The process exited before reading the prompt; reported on close
+      });
+      proc.stdin.end(prompt);
+    });
   }
 
-  private async cleanupTempFiles(...files: string[]): Promise<void> {
-    for (const file of files) {
-      try {
-        await unlink(file);
-      } catch {
-        // Ignore cleanup errors
+  private buildArgs(options: ClaudeCodeOptions): string[] {
+    const { systemPrompt, allowedTools, disallowedTools, model, maxTurns = 50, maxBudgetUsd, mcpServers, resumeSessionId } = options;
+
+    const args = [
+      '--print',
+      '--output-format', 'stream-json',
+      // stream-json in print mode requires --verbose
+      '--verbose',
+      '--append-system-prompt', systemPrompt,
+      '--max-turns', String(maxTurns),
+    ];
+
+    if (model) {
+      args.push('--model', model);
+    }
+
+    if (allowedTools) {
+      // In print mode a tool that isn't pre-approved is denied, so [] allows nothing
+      args.push('--permission-mode', 'default');
+      if (allowedTools.length > 0) {
+        args.push('--allowedTools', allowedTools.join(','));
       }
+    } else {
+      args.push('--permission-mode', 'bypassPermissions');
     }
+    if (disallowedTools && disallowedTools.length > 0) {
+      args.push('--disallowedTools', disallowedTools.join(','));
+    }
+
+    if (maxBudgetUsd !== undefined) {
+      args.push('--max-budget-usd', String(maxBudgetUsd));
+    }
+
+    if (resumeSessionId) {
+      args.push('--resume', resumeSessionId);
+    }
+
+    if (mcpServers && Object.keys(mcpServers).length > 0) {
+      args.push('--mcp-config', JSON.stringify({ mcpServers }));
+    }
+
+    return args;
   }
 }
 
@@ -161,8 +219,8 @@ export async function isClaudeCodeAvailable(): Promise<boolean> {
  * This can cause issues when trying to spawn another claude process.
  */
 export async function isInsideClaudeSession(): Promise<boolean> {
-  // Check for Claude Code environment variable (most reliable)
-  if (process.env['CLAUDE_CODE_ENTRY_POINT']) {
+  // Check for Claude Code environment variables (most reliable)
+  if (process.env['CLAUDE_CODE_ENTRY_POINT'] || process.env['CLAUDECODE']) {
     return true;
   }
 
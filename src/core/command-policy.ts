@@ -0,0 +1,464 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { isInside, resolvePath } from './path-guard.js';
+import type { CommandPolicy } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface CommandContext {
+  cwd: string;
+  /** The project, when cwd has moved with cd (default: cwd) */
+  projectDir?: string | undefined;
+  /** Set after a cd whose target can't be told: relative paths can't be resolved */
+  cwdUnknown?: boolean | undefined;
+  /** Recursive deletes must stay inside these directories */
+  roots: string[];
+  /** HEAD when the session started: git reset --hard may not leave it behind */
+  baseCommit?: string | undefined;
+}
+
+export interface CommandViolation {
+  /** Built-in rule id, or the project's pattern */
+  rule: string;
+  reason: string;
+}
+
+interface CommandRule {
+  id: string;
+  /** Why the command is denied, or undefined if the rule doesn't apply */
+  check(words: string[], context: CommandContext): Promise<string | undefined> | string | undefined;
+}
+
+/**
+ * Words run before the actual program: their options that take a value as
+ * the next word, and how many operands come before the program
+ */
+const WRAPPERS: ReadonlyMap<string, { options: string[]; operands?: number }> = new Map([
+  ['sudo', {
+    options: [
+      '-u', '--user', '-g', '--group', '-U', '--other-user', '-C', '--close-from', '-D', '--chdir',
+      '-R', '--chroot', '-p', '--prompt', '-r', '--role', '-t', '--type', '-T', '--command-timeout',
+    ],
+  }],
+  ['env', { options: ['-u', '--unset', '-C', '--chdir'] }],
+  ['nice', { options: ['-n', '--adjustment'] }],
+  ['timeout', { options: ['-s', '--signal', '-k', '--kill-after'], operands: 1 }],
+  ['time', { options: ['-f', '--format', '-o', '--output'] }],
+  ['npx', { options: ['-p', '--package', '-c', '--call'] }],
+  ['bunx', { options: ['-p', '--package'] }],
+  ['nohup', { options: [] }],
+  ['command', { options: [] }],
+  ['exec', { options: ['-a'] }],
+]);
+
+const PACKAGE_MANAGERS = new Set(['npm', 'pnpm', 'yarn', 'bun', 'cargo']);
+
+/** git options that take a value as the next word */
+const GIT_OPTIONS_WITH_VALUE = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace']);
+
+/** Shells whose -c script is checked like the command itself */
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+/** xargs options that take a value as the next word */
+const XARGS_OPTIONS_WITH_VALUE = new Set(['-I', '-i', '-n', '-L', '-l', '-P', '-s', '-d', '-E', '-e', '-a']);
+
+/** find actions that run a command, up to ";" or "+" */
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+const BUILTIN_RULES: CommandRule[] = [
+  {
+    id: 'git-push',
+    check: (words) => (gitSubcommand(words)?.[0] === 'push' ? 'Pushing is left to the user' : undefined),
+  },
+  {
+    id: 'publish',
+    check: ([program, ...args]) =>
+      program && PACKAGE_MANAGERS.has(program) && operands(args)[0] === 'publish'
+        ? 'Publishing packages is left to the user'
+        : undefined,
+  },
+  {
+    id: 'supabase-db-reset',
+    check: ([program, ...args]) => {
+      const [group, action] = operands(args);
+      return program === 'supabase' && group === 'db' && action === 'reset'
+        ? 'Resetting the database wipes its data'
+        : undefined;
+    },
+  },
+  {
+    id: 'rm-outside',
+    check: ([program, ...args], context) => {
+      if (program !== 'rm' || !args.some((arg) => /^-[^-]*[rR]/.test(arg) || arg === '--recursive')) {
+        return undefined;
+      }
+      for (const target of operands(args)) {
+        const path = resolveTarget(target, context);
+        if (!path) {
+          return `Recursive delete of ${target}: where it points can't be told`;
+        }
+        if (isInside(getProjectDir(context), [path])) {
+          return `Recursive delete of ${path} would delete the project`;
+        }
+        // A writable directory as a whole (e.g. /tmp) counts as outside too
+        if (context.roots.includes(path) || !isInside(path, context.roots)) {
+          return `Recursive delete of ${path}, outside the project`;
+        }
+      }
+      return undefined;
+    },
+  },
+  {
+    id: 'find-delete',
+    check: ([program, ...args], context) => {
+      if (program !== 'find' || !args.includes('-delete')) {
+        return undefined;
+      }
+      for (const start of findStartPaths(args)) {
+        const path = resolveTarget(start, context);
+        if (!path) {
+          return `find -delete in ${start}: where it points can't be told`;
+        }
+        // The project itself is fine: find only deletes what matches in it
+        const project = getProjectDir(context);
+        if (!isInside(path, context.roots) || (isInside(project, [path]) && path !== project)) {
+          return `find -delete in ${path}, outside the project`;
+        }
+      }
+      return undefined;
+    },
+  },
+  {
+    id: 'git-reset-hard',
+    check: async (words, context) => {
+      const [subcommand, ...args] = gitSubcommand(words) ?? [];
+      if (subcommand !== 'reset' || !args.includes('--hard') || !context.baseCommit) {
+        return undefined;
+      }
+      const target = operands(args)[0] ?? 'HEAD';
+      if (/[$`\s]/.test(target)) {
+        return `Hard reset to ${target}: where it points can't be told`;
+      }
+      const cwd = gitDirectory(words, context);
+      if (!cwd) {
+        return `Hard reset to ${target}: the directory git runs in can't be told`;
+      }
+      return await containsCommit(cwd, target, context.baseCommit)
+        ? undefined
+        : `Hard reset to ${target} would drop commits from before the session`;
+    },
+  },
+];
+
+export const COMMAND_RULES: readonly string[] = BUILTIN_RULES.map((rule) => rule.id);
+
+export function isCommandRule(value: string): boolean {
+  return COMMAND_RULES.includes(value);
+}
+
+/**
+ * Whether any rule (built-in or from the project) is active
+ */
+export function hasCommandRules(policy: CommandPolicy = {}): boolean {
+  return (policy.deny ?? []).length > 0 ||
+    COMMAND_RULES.some((id) => !policy.disable?.includes(id));
+}
+
+/**
+ * The first rule a Bash command breaks, if any. Each command of a
+ * sequence or pipeline is checked on its own, in the directory earlier cd
+ * commands left it in, and so are the commands it runs (sh -c scripts,
+ * xargs and find -exec commands). The project's patterns are tested
+ * against the whole text.
+ */
+export async function checkCommand(
+  command: string,
+  context: CommandContext,
+  policy: CommandPolicy = {}
+): Promise<CommandViolation | undefined> {
+  for (const { pattern, reason } of policy.deny ?? []) {
+    if (new RegExp(pattern).test(command)) {
+      return { rule: pattern, reason: reason ?? 'Denied by the project' };
+    }
+  }
+
+  const rules = BUILTIN_RULES.filter((rule) => !policy.disable?.includes(rule.id));
+  return checkCommandLine(command, context, rules);
+}
+
+async function checkCommandLine(
+  command: string,
+  context: CommandContext,
+  rules: CommandRule[]
+): Promise<CommandViolation | undefined> {
+  let current = context;
+  for (const words of parseCommands(command).map(stripWrappers)) {
+    const [program, target] = words;
+    if (program === 'cd' || program === 'pushd') {
+      current = changeDirectory(current, target);
+      continue;
+    }
+    const violation = await checkWords(words, current, rules);
+    if (violation) {
+      return violation;
+    }
+  }
+  return undefined;
+}
+
+async function checkWords(
+  words: string[],
+  context: CommandContext,
+  rules: CommandRule[]
+): Promise<CommandViolation | undefined> {
+  if (words.length === 0) {
+    return undefined;
+  }
+  for (const rule of rules) {
+    const reason = await rule.check(words, context);
+    if (reason) {
+      return { rule: rule.id, reason };
+    }
+  }
+  for (const nested of getNestedCommands(words)) {
+    const violation = typeof nested === 'string'
+      ? await checkCommandLine(nested, context, rules)
+      : await checkWords(stripWrappers(nested), context, rules);
+    if (violation) {
+      return violation;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Simple commands of a command line, as words with quotes removed. Splits
+ * on ;, &, |, newlines, parentheses and backticks outside quotes, so
+ * subshells and command substitutions are checked too.
+ */
+function parseCommands(command: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word: string | undefined;
+  let quote: string | undefined;
+
+  const endWord = () => {
+    if (word !== undefined) words.push(word);
+    word = undefined;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length > 0) commands.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i] ?? '';
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"' && /["\\$`]/.test(command[i + 1] ?? '')) {
+        word += command[++i] ?? '';
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word ??= '';
+    } else if (char === '\\') {
+      word = (word ?? '') + (command[++i] ?? '');
+    } else if (/[;&|\n()`]/.test(char)) {
+      endCommand();
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word = (word ?? '') + char;
+    }
+  }
+  endCommand();
+  return commands;
+}
+
+/**
+ * Where a cd leaves the commands after it; a target built from a variable
+ * (or "cd -") can't be told
+ */
+function changeDirectory(context: CommandContext, target = '~'): CommandContext {
+  const cwd = target === '-' ? undefined : resolveTarget(target, context);
+  const projectDir = context.projectDir ?? context.cwd;
+  return cwd ? { ...context, cwd, cwdUnknown: false, projectDir } : { ...context, cwdUnknown: true, projectDir };
+}
+
+function getProjectDir(context: CommandContext): string {
+  return resolvePath(context.projectDir ?? context.cwd, '.');
+}
+
+/**
+ * Absolute path of a command's target, or undefined if it can't be told
+ * (built from a variable, or relative after an unknown cd)
+ */
+function resolveTarget(target: string, context: CommandContext): string | undefined {
+  if (/\$(?!HOME\b|\{HOME\})/.test(target)) {
+    return undefined;
+  }
+  if (context.cwdUnknown && !/^(?:\/|~|\$HOME\b|\$\{HOME\})/.test(target)) {
+    return undefined;
+  }
+  return resolvePath(context.cwd, target);
+}
+
+/**
+ * Commands this one runs: a shell's -c script and eval's arguments (as
+ * text), the command of xargs, and find's -exec commands with {} standing
+ * for a path under each starting point
+ */
+function getNestedCommands([program, ...args]: string[]): Array<string | string[]> {
+  if (program === 'eval') {
+    return args.length > 0 ? [args.join(' ')] : [];
+  }
+  if (program && SHELLS.has(program)) {
+    const flag = args.findIndex((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg));
+    const script = flag === -1 ? undefined : args[flag + 1];
+    return script === undefined ? [] : [script];
+  }
+
+  if (program === 'xargs') {
+    let i = 0;
+    while (i < args.length && (args[i] ?? '').startsWith('-')) {
+      i += XARGS_OPTIONS_WITH_VALUE.has(args[i] ?? '') ? 2 : 1;
+    }
+    return i < args.length ? [args.slice(i)] : [];
+  }
+
+  if (program === 'find') {
+    const nested: string[][] = [];
+    for (let i = 0; i < args.length; i++) {
+      if (!FIND_EXEC_ACTIONS.has(args[i] ?? '')) continue;
+      const end = args.findIndex((arg, j) => j > i && (arg === ';' || arg === '+'));
+      const command = args.slice(i + 1, end === -1 ? undefined : end);
+      for (const start of findStartPaths(args)) {
+        nested.push(command.map((word) => (word === '{}' ? `${start.replace(/\/+$/, '')}/{}` : word)));
+      }
+      i = end === -1 ? args.length : end;
+    }
+    return nested;
+  }
+
+  return [];
+}
+
+/**
+ * Paths find starts from (the current directory without any)
+ */
+function findStartPaths(args: string[]): string[] {
+  const paths: string[] = [];
+  for (const arg of args) {
+    if (['-H', '-L', '-P'].includes(arg) && paths.length === 0) continue;
+    if (arg.startsWith('-') || arg === '(' || arg === '!') break;
+    paths.push(arg);
+  }
+  return paths.length > 0 ? paths : ['.'];
+}
+
+/**
+ * Drop variable assignments and wrappers like sudo or npx, with their
+ * options. The string of env -S is split into the words it stands for.
+ */
+function stripWrappers(words: string[]): string[] {
+  let rest = words;
+  for (;;) {
+    const [word = '', ...args] = rest;
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      rest = args;
+      continue;
+    }
+    const wrapper = WRAPPERS.get(word);
+    if (!wrapper) {
+      return rest;
+    }
+
+    let i = 0;
+    while (i < args.length && (args[i] ?? '').startsWith('-')) {
+      const option = args[i] ?? '';
+      if (option === '--') {
+        i++;
+        break;
+      }
+      const split = word === 'env' ? option.match(/^(?:-S|--split-string=?)(.*)$/) : null;
+      if (split) {
+        const value = split[1] || (args[++i] ?? '');
+        args.splice(0, i + 1, ...value.split(/\s+/).filter(Boolean));
+        i = 0;
+        continue;
+      }
+      i += wrapper.options.includes(option) ? 2 : 1;
+    }
+    rest = args.slice(i + (wrapper.operands ?? 0));
+  }
+}
+
+/**
+ * Arguments that aren't options; everything after "--" counts
+ */
+function operands(args: string[]): string[] {
+  const end = args.indexOf('--');
+  const options = end === -1 ? args : args.slice(0, end);
+  const rest = end === -1 ? [] : args.slice(end + 1);
+  return [...options.filter((arg) => !arg.startsWith('-')), ...rest];
+}
+
+/**
+ * git subcommand and its arguments, skipping git's own options
+ */
+function gitSubcommand([program, ...args]: string[]): string[] | undefined {
+  if (program !== 'git') {
+    return undefined;
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+    if (GIT_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+    } else if (!arg.startsWith('-')) {
+      return args.slice(i);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Directory git runs in: each -C moves it from the one before. Undefined
+ * when a -C target can't be told.
+ */
+function gitDirectory([, ...args]: string[], context: CommandContext): string | undefined {
+  let cwd = context.cwd;
+  let cwdUnknown = context.cwdUnknown;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+    if (arg === '-C') {
+      const dir = resolveTarget(args[++i] ?? '', { ...context, cwd, cwdUnknown });
+      if (!dir) return undefined;
+      cwd = dir;
+      cwdUnknown = false;
+    } else if (GIT_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+    } else if (!arg.startsWith('-')) {
+      break;
+    }
+  }
+  return cwd;
+}
+
+/**
+ * Whether commit is an ancestor of (or the same as) ref. An unknown ref
+ * counts as yes: git will refuse the command anyway.
+ */
+async function containsCommit(cwd: string, ref: string, commit: string): Promise<boolean> {
+  try {
+    // No shell: the ref comes from the agent's command
+    await execFileAsync('git', ['merge-base', '--is-ancestor', commit, ref], { cwd });
+    return true;
+  } catch (error) {
+    // Exit code 1: not an ancestor; anything else: git couldn't tell
+    return (error as { code?: unknown }).code !== 1;
+  }
+}
@@ -1,11 +1,35 @@
 import { readFile, readdir, stat } from 'node:fs/promises';
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 import { join } from 'node:path';
 import { existsSync } from 'node:fs';
-import type { Feature, FeatureList, SessionContext } from '../types/index.js';
+import type {
+  Feature,
+  FeatureList,
+  FeatureStatus,
+  ProgressEntry,
+  SessionContext,
+  SessionTarget,
+} from '../types/index.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { isFeatureReady } from './feature-graph.js';
+import {
+  formatProgressEntry,
+  parseProgressLog,
+  renderProgressEntries,
+} from './progress-log.js';
+import {
+  FEATURE_STATUSES,
+  isCompleted,
+  isSchedulable,
+  migrateFeature,
+  transitionFeature,
+  type StoredFeature,
+} from './feature-lifecycle.js';
+import { HARNESS_GIT_IDENTITY } from './rollback.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export class ContextBuilder {
   private workspacePath: string;
@@ -28,21 +52,36 @@ export class ContextBuilder {
       return null;
     }
 
+    let stored: Omit<FeatureList, 'features'> & { features: StoredFeature[] };
     try {
       const content = await readFile(path, 'utf-8');
-      return JSON.parse(content) as FeatureList;
+      stored = JSON.parse(content);
     } catch {
       return null;
     }
+
+    // Migrate legacy `passes` booleans to lifecycle statuses
+    let migrated = false;
+    const features = stored.features.map((f) => {
+      const result = migrateFeature(f);
+      migrated ||= result.migrated;
+      return result.feature;
+    });
+
+    const featureList: FeatureList = { ...stored, features };
+    if (migrated) {
+      await this.saveFeatureList(featureList);
+    }
+    return featureList;
   }
 
   async saveFeatureList(featureList: FeatureList): Promise<void> {
-    const { writeFile } = await import('node:fs/promises');
-    await writeFile(
-      this.featureListPath,
-      JSON.stringify(featureList, null, 2),
-      'utf-8'
-    );
+    await writeFileAtomic(this.featureListPath, JSON.stringify(featureList, null, 2));
+  }
+
+  async getFeature(featureId: string): Promise<Feature | null> {
+    const featureList = await this.loadFeatureList();
+    return featureList?.features.find((f) => f.id === featureId) ?? null;
   }
 
   async getNextFeature(): Promise<Feature | null> {
@@ -51,11 +90,12 @@ export class ContextBuilder {
       return null;
     }
 
-    return featureList.features.find((f) => !f.passes) ?? null;
+    const { features } = featureList;
+    return features.find((f) => isSchedulable(f) && isFeatureReady(f, features)) ?? null;
   }
 
   /**
-   * Get next incomplete feature of specific type
+   * Get next incomplete feature of specific type whose dependencies have passed
    */
   async getNextFeatureByType(type: string): Promise<Feature | null> {
     const featureList = await this.loadFeatureList();
@@ -63,30 +103,59 @@ export class ContextBuilder {
       return null;
     }
 
+    const { features } = featureList;
     return (
-      featureList.features.find(
-        (f) => !f.passes && (f.type === type || (!f.type && type === 'feature'))
+      features.find(
+        (f) =>
+          isSchedulable(f) &&
+          (f.type === type || (!f.type && type === 'feature')) &&
+          isFeatureReady(f, features)
       ) ?? null
     );
   }
 
+  /**
+   * Move a feature to a new lifecycle status and persist it.
+   * Throws if the feature doesn't exist or the transition isn't allowed.
+   */
+  async setFeatureStatus(featureId: string, status: FeatureStatus): Promise<Feature> {
+    const featureList = await this.loadFeatureList();
+    const feature = featureList?.features.find((f) => f.id === featureId);
+    if (!featureList || !feature) {
+      throw new Error(`Feature ${featureId} not found in feature_list.json`);
+    }
+
+    transitionFeature(feature, status);
+    await this.saveFeatureList(featureList);
+    return feature;
+  }
+
   async getProgressStats(): Promise<{
     total: number;
     completed: number;
     pending: number;
     percentage: number;
+    byStatus: Record<FeatureStatus, number>;
   }> {
+    const byStatus = Object.fromEntries(
+      FEATURE_STATUSES.map((status) => [status, 0])
+    ) as Record<FeatureStatus, number>;
+
     const featureList = await this.loadFeatureList();
     if (!featureList) {
-      return { total: 0, completed: 0, pending: 0, percentage: 0 };
+      return { total: 0, completed: 0, pending: 0, percentage: 0, byStatus };
+    }
+
+    for (const feature of featureList.features) {
+      byStatus[feature.status]++;
     }
 
     const total = featureList.features.length;
-    const completed = featureList.features.filter((f) => f.passes).length;
+    const completed = byStatus.completed;
     const pending = total - completed;
     const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
 
-    return { total, completed, pending, percentage };
+    return { total, completed, pending, percentage, byStatus };
   }
 
   /**
@@ -111,7 +180,7 @@ export class ContextBuilder {
     }
 
     const total = featureList.features.length;
-    const completed = featureList.features.filter((f) => f.passes).length;
+    const completed = featureList.features.filter(isCompleted).length;
     const pending = total - completed;
     const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
 
@@ -123,7 +192,7 @@ export class ContextBuilder {
       if (!byType[type]) {
         byType[type] = { completed: 0, pending: 0 };
       }
-      if (feature.passes) {
+      if (isCompleted(feature)) {
         byType[type].completed++;
       } else {
         byType[type].pending++;
@@ -133,21 +202,56 @@ export class ContextBuilder {
     return { total, completed, pending, percentage, byType };
   }
 
+  /**
+   * Get the last structured entries written by the harness
+   */
+  async getProgressEntries(lastN: number = 10): Promise<ProgressEntry[]> {
+    const content = await this.readProgressLog();
+    if (content === null) {
+      return [];
+    }
+    return parseProgressLog(content).slice(-lastN);
+  }
+
   async getProgressLog(lastN: number = 10): Promise<string> {
+    return renderProgressEntries(await this.getProgressEntries(lastN));
+  }
+
+  /**
+   * Read progress.log verbatim (null if it doesn't exist)
+   */
+  async readProgressLog(): Promise<string | null> {
     const path = this.progressLogPath;
     if (!existsSync(path)) {
-      return '';
+      return null;
     }
 
     try {
-      const content = await readFile(path, 'utf-8');
-      const lines = content.trim().split('\n\n');
-      return lines.slice(-lastN).join('\n\n');
+      return await readFile(path, 'utf-8');
     } catch {
-      return '';
+      return null;
     }
   }
 
+  /**
+   * Put progress.log back to a previously read snapshot.
+   * Returns true if the file had been changed.
+   */
+  async restoreProgressLog(snapshot: string | null): Promise<boolean> {
+    const current = await this.readProgressLog();
+    if (current === snapshot) {
+      return false;
+    }
+
+    const { rm, writeFile } = await import('node:fs/promises');
+    if (snapshot === null) {
+      await rm(this.progressLogPath, { force: true });
+    } else {
+      await writeFile(this.progressLogPath, snapshot, 'utf-8');
+    }
+    return true;
+  }
+
   async getGitLog(lastN: number = 10): Promise<string> {
     try {
       const { stdout } = await execAsync(
@@ -160,6 +264,20 @@ export class ContextBuilder {
     }
   }
 
+  /**
+   * Get the full hash of the current HEAD (undefined if there are no commits)
+   */
+  async getHeadCommit(): Promise<string | undefined> {
+    try {
+      const { stdout } = await execAsync('git rev-parse HEAD', {
+        cwd: this.workspacePath,
+      });
+      return stdout.trim();
+    } catch {
+      return undefined;
+    }
+  }
+
   async getProjectStructure(maxDepth: number = 3): Promise<string> {
     const lines: string[] = [];
 
@@ -181,7 +299,7 @@ export class ContextBuilder {
           if (!entry) continue;
 
           // Skip common non-essential directories
-          if (['node_modules', '.git', 'dist', '.next', '__pycache__'].includes(entry.name)) {
+          if (['node_modules', '.git', '.harness', 'dist', '.next', '__pycache__'].includes(entry.name)) {
             continue;
           }
 
@@ -207,8 +325,15 @@ export class ContextBuilder {
     return lines.join('\n');
   }
 
-  async buildSessionContext(): Promise<SessionContext | null> {
-    const feature = await this.getNextFeature();
+  /**
+   * Resolve the session target to a feature and gather its context
+   */
+  async buildSessionContext(target: SessionTarget = {}): Promise<SessionContext | null> {
+    const feature = target.featureId
+      ? await this.getFeature(target.featureId)
+      : target.featureType
+        ? await this.getNextFeatureByType(target.featureType)
+        : await this.getNextFeature();
     if (!feature) {
       return null;
     }
@@ -228,15 +353,38 @@ export class ContextBuilder {
     };
   }
 
-  async appendToProgressLog(entry: string): Promise<void> {
-    const { appendFile, writeFile } = await import('node:fs/promises');
-    const path = this.progressLogPath;
+  async appendToProgressLog(entry: ProgressEntry): Promise<void> {
+    const { appendFile } = await import('node:fs/promises');
+    const content = await this.readProgressLog();
+    const separator = content && !content.endsWith('\n') ? '\n' : '';
+    await appendFile(
+      this.progressLogPath,
+      separator + formatProgressEntry(entry) + '\n',
+      'utf-8'
+    );
+  }
 
-    if (!existsSync(path)) {
-      await writeFile(path, entry, 'utf-8');
-    } else {
-      await appendFile(path, '\n\n' + entry, 'utf-8');
+  /**
+   * Commit the working tree for an agent that can't run git itself.
+   * progress.log stays out: the harness restores and appends to it.
+   * Returns false when there was nothing to commit.
+   */
+  async commitChanges(message: string): Promise<boolean> {
+    const cwd = this.workspacePath;
+    await execAsync('git add -A', { cwd });
+    await execAsync('git reset -q -- progress.log', { cwd });
+    try {
+      await execAsync('git diff --cached --quiet', { cwd });
+      return false;
+    } catch {
+      // Exit code 1: something is staged
     }
+    // No shell: the message holds the feature title
+    await execFileAsync('git', ['commit', '-q', '--no-verify', '-m', message], {
+      cwd,
+      env: { ...process.env, ...HARNESS_GIT_IDENTITY },
+    });
+    return true;
   }
 
   async initializeGit(): Promise<void> {
@@ -4,7 +4,7 @@
  */
 
 import { createTransport, type Transporter } from 'nodemailer';
-import type { SessionResult, FeatureList, Feature } from '../types/index.js';
+import type { SessionResult, FeatureList, Feature, StuckEscalation } from '../types/index.js';
 
 // ============================================
 // Tipos
@@ -49,8 +49,15 @@ export interface LoopCompletionData {
     percentage: number;
   };
   duration?: number | undefined;
-  stoppedReason: 'all_complete' | 'max_sessions' | 'error';
+  stoppedReason: 'all_complete' | 'max_sessions' | 'error' | 'blocked' | 'stuck' | 'budget' | 'interrupted';
   lastError?: string | undefined;
+  /** Features cuja sessão foi interrompida por Ctrl-C/SIGTERM (voltam para a fila) */
+  interruptedFeatures?: string[] | undefined;
+  /** Features que esgotaram as tentativas e a ação tomada */
+  escalations?: StuckEscalation[] | undefined;
+  /** Gasto das sessões do loop */
+  totalCostUsd?: number | undefined;
+  totalTokens?: number | undefined;
 }
 
 export type CompletionData = RunCompletionData | LoopCompletionData;
@@ -61,27 +68,28 @@ export type CompletionData = RunCompletionData | LoopCompletionData;
 
 /**
  * Verifica se a configuração de e-mail está disponível
+ * (to: destinatário da configuração do harness, no lugar de NOTIFICATION_EMAIL)
  */
-export function isEmailConfigured(): boolean {
+export function isEmailConfigured(to?: string): boolean {
   return !!(
     process.env['SMTP_HOST'] &&
     process.env['SMTP_USER'] &&
     process.env['SMTP_PASS'] &&
-    process.env['NOTIFICATION_EMAIL']
+    (to || process.env['NOTIFICATION_EMAIL'])
   );
 }
 
 /**
  * Obtém a configuração de e-mail das variáveis de ambiente
  */
-export function getEmailConfig(): EmailConfig | null {
+export function getEmailConfig(recipient?: string): EmailConfig | null {
   const host = process.env['SMTP_HOST'];
   const port = parseInt(process.env['SMTP_PORT'] || '587', 10);
   const secure = process.env['SMTP_SECURE'] === 'true';
   const user = process.env['SMTP_USER'];
   const pass = process.env['SMTP_PASS'];
   const from = process.env['SMTP_FROM'] || user;
-  const to = process.env['NOTIFICATION_EMAIL'];
+  const to = recipient || process.env['NOTIFICATION_EMAIL'];
 
   if (!host || !user || !pass || !to || !from) {
     return null;
@@ -105,8 +113,8 @@ export class EmailNotifier {
   private transporter: Transporter | null = null;
   private config: EmailConfig | null = null;
 
-  constructor() {
-    this.config = getEmailConfig();
+  constructor(to?: string) {
+    this.config = getEmailConfig(to);
     if (this.config) {
       this.transporter = createTransport({
         host: this.config.host,
@@ -218,12 +226,23 @@ Caminho: ${data.projectPath}
     }
 
     const allComplete = data.stoppedReason === 'all_complete';
-    const statusEmoji = allComplete ? '🎉' : data.stoppedReason === 'error' ? '❌' : '⏹️';
+    const statusEmoji = allComplete ? '🎉' :
+                        data.stoppedReason === 'error' ? '❌' :
+                        data.stoppedReason === 'blocked' ? '⏸️' :
+                        data.stoppedReason === 'stuck' ? '⚠️' :
+                        data.stoppedReason === 'budget' ? '💰' :
+                        data.stoppedReason === 'interrupted' ? '🛑' : '⏹️';
     const statusText = allComplete ? 'Todas as Features Completas!' :
                        data.stoppedReason === 'error' ? 'Erro no Loop' :
+                       data.stoppedReason === 'blocked' ? 'Features Bloqueadas por Dependências' :
+                       data.stoppedReason === 'stuck' ? 'Loop Interrompido por Feature Travada' :
+                       data.stoppedReason === 'budget' ? 'Orçamento Esgotado' :
+                       data.stoppedReason === 'interrupted' ? 'Loop Interrompido pelo Usuário (resumo parcial)' :
                        'Limite de Sessões Atingido';
+    const escalations = data.escalations ?? [];
+    const interruptedFeatures = data.interruptedFeatures ?? [];
 
-    const subject = `${statusEmoji} Harness Loop Concluído - ${data.projectName}`;
+    const subject = `${statusEmoji} Harness Loop ${data.stoppedReason === 'interrupted' ? 'Interrompido' : 'Concluído'} - ${data.projectName}`;
 
     const html = `
 <!DOCTYPE html>
@@ -277,8 +296,17 @@ Caminho: ${data.projectPath}
         ${data.stats.completed} de ${data.stats.total} features completas (${data.stats.percentage}%)
       </p>
 
+      ${escalations.length > 0 ? `
+      <h3>Features Travadas</h3>
+      <ul>
+        ${escalations.map((e) => `<li><strong>${e.featureId}</strong> ${e.title}: ${formatEscalationAction(e)} após ${e.attempts} tentativa(s)</li>`).join('\n        ')}
+      </ul>` : ''}
+
+      ${interruptedFeatures.length > 0 ? `<p class="warning">Sessões interrompidas (voltaram para a fila): ${interruptedFeatures.join(', ')}</p>` : ''}
+
       ${data.lastError ? `<p class="error" style="margin-top: 15px;">Último erro: ${data.lastError}</p>` : ''}
       ${data.duration ? `<p style="color: #6b7280; font-size: 14px; margin-top: 15px;">Duração total: ${formatDuration(data.duration)}</p>` : ''}
+      ${data.totalCostUsd ? `<p style="color: #6b7280; font-size: 14px;">Custo: $${data.totalCostUsd.toFixed(2)}${data.totalTokens ? ` (${data.totalTokens.toLocaleString('pt-BR')} tokens)` : ''}</p>` : ''}
 
       <p style="color: #9ca3af; font-size: 12px; margin-top: 20px;">
         Projeto: <code>${data.projectPath}</code>
@@ -301,8 +329,11 @@ Sessões com sucesso: ${data.successfulSessions}
 Sessões incompletas: ${data.failedSessions}
 
 Progresso Final: ${data.stats.completed}/${data.stats.total} features (${data.stats.percentage}%)
+${escalations.length > 0 ? `\nFeatures travadas:\n${escalations.map((e) => `- ${e.featureId} ${e.title}: ${formatEscalationAction(e)} após ${e.attempts} tentativa(s)`).join('\n')}\n` : ''}
+${interruptedFeatures.length > 0 ? `Sessões interrompidas (voltaram para a fila): ${interruptedFeatures.join(', ')}` : ''}
 ${data.lastError ? `Último erro: ${data.lastError}` : ''}
 ${data.duration ? `Duração total: ${formatDuration(data.duration)}` : ''}
+${data.totalCostUsd ? `Custo: $${data.totalCostUsd.toFixed(2)}${data.totalTokens ? ` (${data.totalTokens.toLocaleString('pt-BR')} tokens)` : ''}` : ''}
 
 Caminho: ${data.projectPath}
     `;
@@ -357,7 +388,7 @@ Caminho: ${data.projectPath}
 /**
  * Formata duração em milissegundos para string legível
  */
-function formatDuration(ms: number): string {
+export function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
@@ -371,18 +402,34 @@ function formatDuration(ms: number): string {
   return `${seconds}s`;
 }
 
+/**
+ * Descreve a ação tomada com uma feature travada
+ */
+function formatEscalationAction(escalation: StuckEscalation): string {
+  switch (escalation.action) {
+    case 'stop':
+      return 'loop interrompido';
+    case 'atomize':
+      return `atomizada em ${escalation.detail}`;
+    case 'block':
+      return `bloqueada${escalation.detail ? ` (${escalation.detail})` : ''}`;
+  }
+}
+
 // ============================================
 // Singleton Instance
 // ============================================
 
 let notifierInstance: EmailNotifier | null = null;
+let notifierRecipient: string | undefined;
 
 /**
- * Obtém a instância do notificador de e-mail
+ * Obtém a instância do notificador de e-mail (recriada se o destinatário mudar)
  */
-export function getEmailNotifier(): EmailNotifier {
-  if (!notifierInstance) {
-    notifierInstance = new EmailNotifier();
+export function getEmailNotifier(to?: string): EmailNotifier {
+  if (!notifierInstance || to !== notifierRecipient) {
+    notifierInstance = new EmailNotifier(to);
+    notifierRecipient = to;
   }
   return notifierInstance;
 }
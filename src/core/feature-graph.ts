@@ -0,0 +1,150 @@
+import type { Feature } from '../types/index.js';
+import { isCompleted, isSchedulable } from './feature-lifecycle.js';
+
+/**
+ * A dependency that points at a feature ID not present in the list
+ */
+export interface UnknownDependency {
+  featureId: string;
+  dependencyId: string;
+}
+
+export interface DependencyReport {
+  unknown: UnknownDependency[];
+  /** Each cycle is listed as the sequence of IDs that loop back to the first */
+  cycles: string[][];
+}
+
+export interface BlockedFeature {
+  feature: Feature;
+  blockedBy: string[];
+}
+
+/**
+ * Get the dependency IDs declared by a feature (empty for legacy features)
+ */
+export function getDependencies(feature: Feature): string[] {
+  return Array.isArray(feature.depends_on) ? feature.depends_on : [];
+}
+
+/**
+ * Get the dependencies of a feature that are not completed yet.
+ * Unknown IDs count as unmet, so a typo never silently unblocks a feature.
+ */
+export function getUnmetDependencies(feature: Feature, features: Feature[]): string[] {
+  const byId = new Map(features.map((f) => [f.id, f]));
+  return getDependencies(feature).filter((id) => {
+    const dependency = byId.get(id);
+    return !dependency || !isCompleted(dependency);
+  });
+}
+
+/**
+ * Check if all dependencies of a feature are completed
+ */
+export function isFeatureReady(feature: Feature, features: Feature[]): boolean {
+  return getUnmetDependencies(feature, features).length === 0;
+}
+
+/**
+ * List schedulable features that are waiting on other features
+ */
+export function getBlockedFeatures(features: Feature[]): BlockedFeature[] {
+  const blocked: BlockedFeature[] = [];
+  for (const feature of features) {
+    if (!isSchedulable(feature)) continue;
+    const blockedBy = getUnmetDependencies(feature, features);
+    if (blockedBy.length > 0) {
+      blocked.push({ feature, blockedBy });
+    }
+  }
+  return blocked;
+}
+
+/**
+ * Point every dependency on one feature at its replacements instead
+ * (used when a feature is split into smaller ones). Returns the IDs of the features changed.
+ */
+export function replaceDependency(
+  features: Feature[],
+  oldId: string,
+  newIds: string[]
+): string[] {
+  const changed: string[] = [];
+  for (const feature of features) {
+    const dependencies = getDependencies(feature);
+    if (!dependencies.includes(oldId)) continue;
+
+    // The replacements themselves just drop the old dependency
+    const replacement = newIds.includes(feature.id) ? [] : newIds;
+    feature.depends_on = [
+      ...new Set(dependencies.flatMap((id) => (id === oldId ? replacement : [id]))),
+    ];
+    changed.push(feature.id);
+  }
+  return changed;
+}
+
+/**
+ * Detect unknown dependency IDs and dependency cycles in a feature list
+ */
+export function analyzeDependencies(features: Feature[]): DependencyReport {
+  const ids = new Set(features.map((f) => f.id));
+  const unknown: UnknownDependency[] = [];
+
+  for (const feature of features) {
+    for (const dependencyId of getDependencies(feature)) {
+      if (!ids.has(dependencyId)) {
+        unknown.push({ featureId: feature.id, dependencyId });
+      }
+    }
+  }
+
+  // Depth-first search keeping the current path to report each cycle once
+  const graph = new Map(
+    features.map((f) => [f.id, getDependencies(f).filter((id) => ids.has(id))])
+  );
+  const visited = new Set<string>();
+  const onPath = new Set<string>();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    visited.add(id);
+    onPath.add(id);
+    path.push(id);
+
+    for (const next of graph.get(id) ?? []) {
+      if (onPath.has(next)) {
+        cycles.push(path.slice(path.indexOf(next)));
+      } else if (!visited.has(next)) {
+        visit(next);
+      }
+    }
+
+    path.pop();
+    onPath.delete(id);
+  };
+
+  for (const id of graph.keys()) {
+    if (!visited.has(id)) {
+      visit(id);
+    }
+  }
+
+  return { unknown, cycles };
+}
+
+/**
+ * Format dependency problems as human-readable lines
+ */
+export function describeDependencyIssues(report: DependencyReport): string[] {
+  return [
+    ...report.unknown.map(
+      (u) => `${u.featureId} depends on unknown feature ${u.dependencyId}`
+    ),
+    ...report.cycles.map(
+      (cycle) => `Dependency cycle: ${[...cycle, cycle[0]].join(' → ')}`
+    ),
+  ];
+}
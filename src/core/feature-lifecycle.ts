@@ -0,0 +1,92 @@
+import type { Feature, FeatureStatus } from '../types/index.js';
+
+export const FEATURE_STATUSES: FeatureStatus[] = [
+  'pending',
+  'in_progress',
+  'completed',
+  'failed',
+  'blocked',
+  'skipped',
+];
+
+/**
+ * Allowed status transitions.
+ * Every state can go back to pending so `reset` always works.
+ */
+export const FEATURE_TRANSITIONS: Record<FeatureStatus, FeatureStatus[]> = {
+  pending: ['in_progress', 'blocked', 'skipped'],
+  in_progress: ['completed', 'failed', 'pending', 'blocked'],
+  // completed -> failed when the harness verification rejects the agent's claim
+  completed: ['failed', 'pending'],
+  failed: ['in_progress', 'pending', 'blocked', 'skipped'],
+  blocked: ['pending', 'skipped'],
+  skipped: ['pending'],
+};
+
+/**
+ * Feature as found on disk: older files only have `passes`
+ */
+export type StoredFeature = Omit<Feature, 'status'> & {
+  status?: FeatureStatus;
+  passes?: boolean;
+};
+
+export function isFeatureStatus(value: unknown): value is FeatureStatus {
+  return typeof value === 'string' && FEATURE_STATUSES.includes(value as FeatureStatus);
+}
+
+export function canTransition(from: FeatureStatus, to: FeatureStatus): boolean {
+  return FEATURE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a feature to a new status, throwing if the transition is not allowed.
+ * Setting the current status again is a no-op.
+ */
+export function transitionFeature(feature: Feature, to: FeatureStatus): void {
+  if (feature.status === to) {
+    return;
+  }
+  if (!canTransition(feature.status, to)) {
+    throw new Error(
+      `Invalid status transition for ${feature.id}: ${feature.status} → ${to}`
+    );
+  }
+  feature.status = to;
+}
+
+export function isCompleted(feature: Feature): boolean {
+  return feature.status === 'completed';
+}
+
+/**
+ * Check if a feature can be picked by the scheduler.
+ * in_progress is included so a session that crashed is picked up again.
+ */
+export function isSchedulable(feature: Feature): boolean {
+  return (
+    feature.status === 'pending' ||
+    feature.status === 'failed' ||
+    feature.status === 'in_progress'
+  );
+}
+
+/**
+ * Convert a stored feature to the status-based format.
+ * Returns whether anything had to change so callers can persist the migration.
+ */
+export function migrateFeature(stored: StoredFeature): { feature: Feature; migrated: boolean } {
+  const { passes, status, ...rest } = stored;
+
+  if (isFeatureStatus(status) && passes === undefined) {
+    return { feature: { ...rest, status }, migrated: false };
+  }
+
+  const migratedStatus: FeatureStatus = isFeatureStatus(status)
+    ? status
+    : passes === true
+      ? 'completed'
+      : 'pending';
+
+  return { feature: { ...rest, status: migratedStatus }, migrated: true };
+}
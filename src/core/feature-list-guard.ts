@@ -0,0 +1,136 @@
+import type {
+  Feature,
+  FeatureList,
+  FeatureListViolation,
+} from '../types/index.js';
+import { canTransition } from './feature-lifecycle.js';
+
+export interface FeatureListGuardResult {
+  violations: FeatureListViolation[];
+  /** Snapshot with only the allowed change applied (null when nothing had to be reverted) */
+  repaired: FeatureList | null;
+}
+
+/**
+ * Compare the feature list after a session with the snapshot taken before it.
+ * The only change the agent may make is the status of the target feature,
+ * and only along an allowed transition. Everything else is reverted.
+ */
+export function guardFeatureList(
+  before: FeatureList,
+  after: FeatureList | null,
+  targetId: string
+): FeatureListGuardResult {
+  const targetBefore = before.features.find((f) => f.id === targetId);
+
+  if (!after) {
+    return {
+      violations: [{ kind: 'invalid', message: 'feature_list.json was deleted or is not valid JSON' }],
+      repaired: before,
+    };
+  }
+
+  const violations: FeatureListViolation[] = [];
+
+  // Project-level fields
+  const { features: _beforeFeatures, ...beforeMeta } = before;
+  const { features: _afterFeatures, ...afterMeta } = after;
+  for (const field of new Set([...Object.keys(beforeMeta), ...Object.keys(afterMeta)])) {
+    if (!isEqual(beforeMeta[field as keyof typeof beforeMeta], afterMeta[field as keyof typeof afterMeta])) {
+      violations.push({ kind: 'metadata', field, message: `Project field "${field}" changed` });
+    }
+  }
+
+  const beforeIds = before.features.map((f) => f.id);
+  const afterById = new Map(after.features.map((f) => [f.id, f]));
+  const beforeIdSet = new Set(beforeIds);
+
+  for (const id of beforeIds) {
+    if (!afterById.has(id)) {
+      violations.push({ kind: 'removed', featureId: id, message: `Feature ${id} was removed` });
+    }
+  }
+  for (const feature of after.features) {
+    if (!beforeIdSet.has(feature.id)) {
+      violations.push({ kind: 'added', featureId: feature.id, message: `Feature ${feature.id} was added` });
+    }
+  }
+
+  const commonBefore = beforeIds.filter((id) => afterById.has(id));
+  const commonAfter = after.features.map((f) => f.id).filter((id) => beforeIdSet.has(id));
+  if (commonBefore.join('\n') !== commonAfter.join('\n')) {
+    violations.push({ kind: 'reordered', message: 'Features were reordered' });
+  }
+
+  // Field-level changes
+  for (const featureBefore of before.features) {
+    const featureAfter = afterById.get(featureBefore.id);
+    if (!featureAfter) continue;
+
+    for (const field of changedFields(featureBefore, featureAfter)) {
+      const isTarget = featureBefore.id === targetId;
+      if (isTarget && field === 'status') {
+        if (canTransition(featureBefore.status, featureAfter.status)) continue;
+        violations.push({
+          kind: 'status',
+          featureId: featureBefore.id,
+          field,
+          message: `Invalid status change for ${featureBefore.id}: ${featureBefore.status} → ${featureAfter.status}`,
+        });
+        continue;
+      }
+
+      violations.push({
+        kind: 'modified',
+        featureId: featureBefore.id,
+        field,
+        message: isTarget
+          ? `Field "${field}" of target feature ${featureBefore.id} changed`
+          : `Field "${field}" of ${featureBefore.id} changed (not the target feature)`,
+      });
+    }
+  }
+
+  if (violations.length === 0) {
+    return { violations, repaired: null };
+  }
+
+  // Start from the snapshot and keep only a valid status change of the target
+  const targetAfter = afterById.get(targetId);
+  const keepStatus =
+    targetBefore &&
+    targetAfter &&
+    targetAfter.status !== targetBefore.status &&
+    canTransition(targetBefore.status, targetAfter.status);
+
+  const repaired: FeatureList = {
+    ...before,
+    features: before.features.map((f) =>
+      f.id === targetId && keepStatus && targetAfter ? { ...f, status: targetAfter.status } : f
+    ),
+  };
+
+  return { violations, repaired };
+}
+
+function changedFields(before: Feature, after: Feature): string[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields].filter(
+    (field) => !isEqual(before[field as keyof Feature], after[field as keyof Feature])
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * JSON with sorted object keys, so key order alone never counts as a change
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  ) ?? 'undefined';
+}
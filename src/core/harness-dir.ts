@@ -0,0 +1,35 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Directory inside each project where the harness keeps its own state
+ */
+export const HARNESS_DIR_NAME = '.harness';
+
+const HARNESS_GITIGNORE = `# Local harness state (attempt history, transcripts, ...)
+*
+!.gitignore
+!config.json
+`;
+
+export function getHarnessDir(projectPath: string): string {
+  return join(projectPath, HARNESS_DIR_NAME);
+}
+
+/**
+ * Create the .harness directory if needed.
+ * It ships its own .gitignore so harness state never ends up in agent commits
+ * (config.json is the exception: it is meant to be versioned).
+ */
+export async function ensureHarnessDir(projectPath: string): Promise<string> {
+  const dir = getHarnessDir(projectPath);
+  await mkdir(dir, { recursive: true });
+
+  const gitignorePath = join(dir, '.gitignore');
+  if (!existsSync(gitignorePath)) {
+    await writeFile(gitignorePath, HARNESS_GITIGNORE, 'utf-8');
+  }
+
+  return dir;
+}
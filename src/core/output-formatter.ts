@@ -1,4 +1,30 @@
 import chalk from 'chalk';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+
+/**
+ * Quais mensagens renderizar no replay de uma sessão gravada
+ * - all: tudo, como numa sessão ao vivo, mais as chamadas de ferramentas
+ * - tools: só as chamadas de ferramentas
+ * - edits: só as edições de arquivos, com o conteúdo alterado
+ * - text: só o texto do agente
+ * - errors: só os erros (ferramentas que falharam e o resultado da sessão)
+ */
+export type MessageFilter = 'all' | 'tools' | 'edits' | 'text' | 'errors';
+
+/**
+ * Ferramentas que alteram arquivos
+ */
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/**
+ * Máximo de linhas mostradas de um trecho editado ou de uma saída de erro
+ */
+const MAX_SNIPPET_LINES = 40;
+
+interface ToolCall {
+  name: string;
+  input: Record<string, unknown>;
+}
 
 /**
  * Seções de output do agente
@@ -42,6 +68,8 @@ class OutputFormatter {
   private currentSection: Section | null = null;
   private buffer: string = '';
   private readonly MAX_BUFFER_SIZE = 500;
+  // Chamadas de ferramentas por id, para mostrar qual chamada gerou um erro
+  private toolCalls = new Map<string, ToolCall>();
 
   /**
    * Formata um chunk de texto detectando transições de seção
@@ -71,6 +99,69 @@ class OutputFormatter {
     return chunk;
   }
 
+  /**
+   * Formata uma mensagem completa do SDK (usado pelo replay de transcrições).
+   * O texto do agente passa por formatText, como numa sessão ao vivo.
+   * @param message Mensagem gravada em .harness/sessions
+   * @param filter Quais partes da mensagem mostrar
+   * @returns Texto formatado (vazio se nada passar pelo filtro)
+   */
+  formatMessage(message: SDKMessage, filter: MessageFilter = 'all'): string {
+    let output = '';
+
+    if (message.type === 'system' && message.subtype === 'init') {
+      if (filter === 'all') {
+        output += chalk.gray(`Sessão ${message.session_id} · ${message.model} · ${message.cwd}\n`);
+      }
+    } else if (message.type === 'assistant') {
+      if (message.error && (filter === 'all' || filter === 'errors')) {
+        output += chalk.red(`\n✗ Erro da API: ${message.error}\n`);
+      }
+      for (const block of message.message.content) {
+        if (block.type === 'text') {
+          if (filter === 'all' || filter === 'text' || (filter === 'errors' && message.error)) {
+            output += this.formatText(block.text);
+          }
+        } else if (block.type === 'tool_use') {
+          const call: ToolCall = { name: block.name, input: asRecord(block.input) };
+          this.toolCalls.set(block.id, call);
+          if (filter === 'all' || filter === 'tools') {
+            output += `\n${formatToolCall(call)}\n`;
+          } else if (filter === 'edits' && EDIT_TOOLS.has(call.name)) {
+            output += `\n${formatToolCall(call)}\n${formatEdit(call)}`;
+          }
+        }
+      }
+    } else if (message.type === 'user') {
+      const content = message.message.content;
+      for (const block of typeof content === 'string' ? [] : content) {
+        if (block.type !== 'tool_result' || !block.is_error) continue;
+        if (filter !== 'all' && filter !== 'tools' && filter !== 'errors') continue;
+
+        const call = this.toolCalls.get(block.tool_use_id);
+        output += chalk.red(`\n✗ ${call ? formatToolCall(call, false) : 'Ferramenta'} falhou\n`);
+        if (filter === 'errors') {
+          output += chalk.gray(`${truncateLines(toolResultText(block.content))}\n`);
+        }
+      }
+    } else if (message.type === 'result') {
+      const details = `${message.num_turns} turnos · $${message.total_cost_usd.toFixed(4)}`;
+      if (message.subtype === 'success' && !message.is_error) {
+        if (filter === 'all') {
+          output += chalk.green(`\n\n✓ Sessão concluída · ${details}\n`);
+        }
+      } else if (filter === 'all' || filter === 'errors') {
+        const errors = message.subtype === 'success' ? [message.result] : message.errors;
+        output += chalk.red(`\n\n✗ Sessão terminou com erro (${message.subtype}) · ${details}\n`);
+        for (const error of errors.filter(Boolean)) {
+          output += chalk.red(`  ${error}\n`);
+        }
+      }
+    }
+
+    return output;
+  }
+
   /**
    * Detecta qual seção está ativa baseado nos padrões no buffer
    * @returns Seção detectada ou null se nenhuma match
@@ -109,7 +200,69 @@ class OutputFormatter {
   reset(): void {
     this.currentSection = null;
     this.buffer = '';
+    this.toolCalls.clear();
+  }
+}
+
+/**
+ * Uma linha por chamada de ferramenta, ex: "▸ Edit app/page.tsx"
+ */
+function formatToolCall(call: ToolCall, colored: boolean = true): string {
+  const { input } = call;
+  const target =
+    input['file_path'] ?? input['notebook_path'] ?? input['command'] ?? input['pattern'] ?? input['url'] ?? '';
+  const summary = String(target).split('\n')[0]?.slice(0, 120) ?? '';
+  return colored
+    ? `${chalk.blue(`▸ ${call.name}`)} ${chalk.gray(summary)}`
+    : `${call.name} ${summary}`;
+}
+
+/**
+ * Conteúdo de uma edição: linhas removidas em vermelho, adicionadas em verde
+ */
+function formatEdit(call: ToolCall): string {
+  const { input } = call;
+  const edits = Array.isArray(input['edits'])
+    ? (input['edits'] as unknown[]).map(asRecord)
+    : [input];
+
+  let output = '';
+  for (const edit of edits) {
+    const removed = typeof edit['old_string'] === 'string' ? edit['old_string'] : '';
+    const added = String(edit['new_string'] ?? edit['content'] ?? edit['new_source'] ?? '');
+    if (removed) {
+      output += chalk.red(`${truncateLines(removed, '- ')}\n`);
+    }
+    output += chalk.green(`${truncateLines(added, '+ ')}\n`);
+  }
+  return output;
+}
+
+function truncateLines(text: string, prefix: string = '  '): string {
+  const lines = text.split('\n');
+  const shown = lines.slice(0, MAX_SNIPPET_LINES).map((line) => `${prefix}${line}`);
+  if (lines.length > MAX_SNIPPET_LINES) {
+    shown.push(`${prefix}… (+${lines.length - MAX_SNIPPET_LINES} linhas)`);
   }
+  return shown.join('\n');
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => asRecord(block))
+      .filter((block) => block['type'] === 'text')
+      .map((block) => String(block['text']))
+      .join('\n');
+  }
+  return '';
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
 }
 
 /**
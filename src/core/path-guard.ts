@@ -0,0 +1,124 @@
+import { existsSync, realpathSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { basename, dirname, resolve, sep } from 'node:path';
+
+/** Writable besides the project and the configured paths: scratch files */
+export const DEFAULT_WRITABLE_PATHS = [tmpdir()];
+
+/** Redirection targets that aren't files */
+const DEVICE_PATHS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty']);
+
+/** A redirection (>, >>, 2>, &>) and its target; "2>&1" is not one */
+const REDIRECT_PATTERN = /(?:^|[^<>&\d=-])(?:\d|&)?>>?\s*(?!&)("[^"]*"|'[^']*'|[^\s;&|()<>]+)/g;
+
+/** tee and its arguments, up to the end of the command */
+const TEE_PATTERN = /(?:^|[\s;&|(])tee\s+([^;&|()<>]+)/g;
+
+/**
+ * The first path a tool call would write to outside the writable roots,
+ * if any. Only file edits and obvious Bash redirections are checked: a
+ * command can still write elsewhere (cp, sed -i, a script...).
+ */
+export function findWriteOutside(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string,
+  writableRoots: string[]
+): string | undefined {
+  const roots = writableRoots.map((root) => resolvePath(cwd, root));
+  return getWriteTargets(toolName, input)
+    .map((target) => resolvePath(cwd, target))
+    .find((target) => !DEVICE_PATHS.has(target) && !isInside(target, roots));
+}
+
+/**
+ * The first path a tool call would write to inside a read-only directory,
+ * if any. The most specific directory decides: a writable root nested in a
+ * read-only one (a worktree under .harness/) stays writable.
+ */
+export function findReadOnlyWrite(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string,
+  readOnlyPaths: string[],
+  writableRoots: string[]
+): string | undefined {
+  const readOnly = readOnlyPaths.map((path) => resolvePath(cwd, path));
+  const writable = writableRoots.map((root) => resolvePath(cwd, root));
+  return getWriteTargets(toolName, input)
+    .map((target) => resolvePath(cwd, target))
+    .find((target) => {
+      const readOnlyDepth = findDeepest(target, readOnly);
+      return readOnlyDepth > findDeepest(target, writable);
+    });
+}
+
+/**
+ * Absolute, symlink-free path for a shell or tool argument (~ expanded)
+ */
+export function resolvePath(cwd: string, path: string): string {
+  return canonicalPath(resolve(cwd, expandHome(path)));
+}
+
+export function isInside(path: string, roots: string[]): boolean {
+  return roots.some((root) => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+}
+
+/** Length of the longest root containing the path, -1 if none does */
+function findDeepest(path: string, roots: string[]): number {
+  return Math.max(-1, ...roots.filter((root) => isInside(path, [root])).map((root) => root.length));
+}
+
+/**
+ * Paths a tool call writes to, as far as its input tells
+ */
+export function getWriteTargets(toolName: string, input: Record<string, unknown>): string[] {
+  switch (toolName) {
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return typeof input['file_path'] === 'string' ? [input['file_path']] : [];
+    case 'NotebookEdit':
+      return typeof input['notebook_path'] === 'string' ? [input['notebook_path']] : [];
+    case 'Bash':
+      return typeof input['command'] === 'string' ? findRedirectTargets(input['command']) : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Files a shell command redirects output to (> file, >> file, | tee file).
+ * Targets built from variables other than $HOME can't be told and are skipped.
+ */
+export function findRedirectTargets(command: string): string[] {
+  const targets: string[] = [];
+  for (const match of command.matchAll(REDIRECT_PATTERN)) {
+    targets.push(unquote(match[1] ?? ''));
+  }
+  for (const match of command.matchAll(TEE_PATTERN)) {
+    const args = (match[1] ?? '').trim().split(/\s+/);
+    targets.push(...args.filter((arg) => !arg.startsWith('-')).map(unquote));
+  }
+  return targets.filter((target) => target !== '' && !/\$(?!HOME\b|\{HOME\})/.test(target));
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+function expandHome(path: string): string {
+  return path.replace(/^(?:~|\$HOME\b|\$\{HOME\})(?=\/|$)/, homedir());
+}
+
+/**
+ * Absolute path with symlinks resolved, so a link inside the project can't
+ * point the write elsewhere. The part that doesn't exist yet is kept as is.
+ */
+function canonicalPath(path: string): string {
+  if (existsSync(path)) {
+    return realpathSync(path);
+  }
+  const parent = dirname(path);
+  return parent === path ? path : resolve(canonicalPath(parent), basename(path));
+}
@@ -0,0 +1,249 @@
+import type { CanUseTool } from '@anthropic-ai/claude-agent-sdk';
+import { checkCommand, hasCommandRules } from './command-policy.js';
+import { findReadOnlyWrite, findWriteOutside } from './path-guard.js';
+import type { CommandPolicy, FeatureType, PolicyAgent, ToolDenial, ToolPolicy } from '../types/index.js';
+
+const FEATURE_TYPES: readonly FeatureType[] = ['feature', 'refactoring', 'bugfix', 'improvement', 'docs'];
+
+export const POLICY_AGENTS: readonly PolicyAgent[] = [
+  ...FEATURE_TYPES,
+  'initializer',
+  'feature-adder',
+  'atomizer',
+];
+
+export function isPolicyAgent(value: string): value is PolicyAgent {
+  return (POLICY_AGENTS as readonly string[]).includes(value);
+}
+
+/** Tools that look at the project without changing it */
+export const READ_ONLY_TOOLS: readonly string[] = [
+  'Read',
+  'Glob',
+  'Grep',
+  'WebFetch',
+  'WebSearch',
+  'TodoWrite',
+];
+
+/**
+ * Coding agents get every tool; the docs agent edits files but runs no
+ * commands; agents that only plan features are read-only
+ */
+export const DEFAULT_TOOL_POLICIES: Readonly<Record<PolicyAgent, ToolPolicy>> = {
+  feature: {},
+  refactoring: {},
+  bugfix: {},
+  improvement: {},
+  docs: { deny: ['Bash', 'BashOutput', 'KillShell'] },
+  initializer: { allow: [...READ_ONLY_TOOLS] },
+  'feature-adder': { allow: [...READ_ONLY_TOOLS] },
+  atomizer: { allow: [...READ_ONLY_TOOLS] },
+};
+
+/**
+ * Policy for an agent: the project's own entry replaces the default one
+ */
+export function resolveToolPolicy(
+  agent: PolicyAgent,
+  overrides?: Partial<Record<PolicyAgent, ToolPolicy>> | undefined
+): ToolPolicy {
+  return overrides?.[agent] ?? DEFAULT_TOOL_POLICIES[agent];
+}
+
+/**
+ * Whether the policy lets every tool run
+ */
+export function isUnrestricted(policy: ToolPolicy): boolean {
+  return policy.allow === undefined && (policy.deny ?? []).length === 0;
+}
+
+export function isToolAllowed(policy: ToolPolicy, toolName: string): boolean {
+  if (policy.deny?.some((pattern) => matchesTool(pattern, toolName))) {
+    return false;
+  }
+  return policy.allow === undefined || policy.allow.some((pattern) => matchesTool(pattern, toolName));
+}
+
+/**
+ * What the permission layer checks on each tool call
+ */
+export interface ToolGuard {
+  cwd: string;
+  policy?: ToolPolicy | undefined;
+  /** Writes must stay inside these directories; no path check without it */
+  writableRoots?: string[] | undefined;
+  /** Never written to, even inside the writable roots (the harness state) */
+  readOnlyPaths?: string[] | undefined;
+  /** Project changes to the Bash command rules */
+  commands?: CommandPolicy | undefined;
+  /** HEAD when the session started */
+  baseCommit?: string | undefined;
+  /** Asked about every call the guard lets through (supervised runs) */
+  approve?: ToolApprover | undefined;
+}
+
+export interface ToolApprovalRequest {
+  toolName: string;
+  input: Record<string, unknown>;
+  /** Aborted when the session stops while waiting for the answer */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * An approval may change the input (e.g. an edited command)
+ */
+export type ToolApproval =
+  | { approved: true; input: Record<string, unknown> }
+  | { approved: false; message: string };
+
+export type ToolApprover = (request: ToolApprovalRequest) => Promise<ToolApproval>;
+
+export type ToolDecision =
+  | { allowed: true; input: Record<string, unknown> }
+  /** denial is set when the guard refused the call, not the approver */
+  | { allowed: false; message: string; denial?: ToolDenial | undefined };
+
+/**
+ * Whether tool calls need to go through the guard at all
+ */
+export function isGuarded(guard: ToolGuard): boolean {
+  return guard.writableRoots !== undefined ||
+    (guard.readOnlyPaths?.length ?? 0) > 0 ||
+    (guard.policy !== undefined && !isUnrestricted(guard.policy)) ||
+    hasCommandRules(guard.commands) ||
+    guard.approve !== undefined;
+}
+
+/**
+ * Why the guard refuses a tool call, or undefined if it may run
+ */
+export async function checkToolCall(
+  guard: ToolGuard,
+  toolName: string,
+  input: Record<string, unknown>
+): Promise<ToolDenial | undefined> {
+  if (guard.policy && !isToolAllowed(guard.policy, toolName)) {
+    return { tool: toolName, reason: `${toolName} is not available to this agent (harness tool policy)` };
+  }
+  const command = input['command'];
+  if (toolName === 'Bash' && typeof command === 'string') {
+    const violation = await checkCommand(command, {
+      cwd: guard.cwd,
+      roots: guard.writableRoots ?? [guard.cwd],
+      baseCommit: guard.baseCommit,
+    }, guard.commands);
+    if (violation) {
+      return {
+        tool: toolName,
+        reason: `${violation.reason}: this command is blocked (harness command policy, rule "${violation.rule}")`,
+        command,
+        rule: violation.rule,
+      };
+    }
+  }
+  if (guard.writableRoots) {
+    const path = findWriteOutside(toolName, input, guard.cwd, guard.writableRoots);
+    if (path) {
+      return {
+        tool: toolName,
+        reason: `Writing to ${path} is blocked: it is outside the project directory (harness path guard)`,
+        path,
+      };
+    }
+  }
+  if (guard.readOnlyPaths) {
+    const path = findReadOnlyWrite(toolName, input, guard.cwd, guard.readOnlyPaths, guard.writableRoots ?? [guard.cwd]);
+    if (path) {
+      return {
+        tool: toolName,
+        reason: `Writing to ${path} is blocked: the harness state and config are read-only (harness path guard)`,
+        path,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The guard's checks, then the approver's answer. Input changed by the
+ * approver goes through the guard again.
+ */
+export async function decideToolCall(
+  guard: ToolGuard,
+  toolName: string,
+  input: Record<string, unknown>,
+  signal?: AbortSignal | undefined
+): Promise<ToolDecision> {
+  const denial = await checkToolCall(guard, toolName, input);
+  if (denial) {
+    return { allowed: false, message: denial.reason, denial };
+  }
+  if (!guard.approve) {
+    return { allowed: true, input };
+  }
+
+  const approval = await guard.approve({ toolName, input, signal });
+  if (!approval.approved) {
+    return { allowed: false, message: approval.message };
+  }
+  if (approval.input !== input) {
+    const editedDenial = await checkToolCall(guard, toolName, approval.input);
+    if (editedDenial) {
+      return { allowed: false, message: editedDenial.reason, denial: editedDenial };
+    }
+  }
+  return { allowed: true, input: approval.input };
+}
+
+/**
+ * SDK permission callback enforcing the guard. A denied tool call is
+ * reported back to the agent, which can carry on without it.
+ */
+export function createCanUseTool(
+  guard: ToolGuard,
+  onDenied?: ((denial: ToolDenial) => void) | undefined
+): CanUseTool {
+  return async (toolName, input, { signal }) => {
+    const decision = await decideToolCall(guard, toolName, input, signal);
+    if (decision.allowed) {
+      return { behavior: 'allow', updatedInput: decision.input };
+    }
+    if (decision.denial) {
+      onDenied?.(decision.denial);
+    }
+    return { behavior: 'deny', message: decision.message };
+  };
+}
+
+/**
+ * Append a section telling the agent which tools it can't use, so it
+ * doesn't spend turns on calls that will be denied
+ */
+export function withToolRestrictions(systemPrompt: string, policy: ToolPolicy): string {
+  if (isUnrestricted(policy)) {
+    return systemPrompt;
+  }
+
+  const lines = ['## TOOL RESTRICTIONS', ''];
+  if (policy.allow !== undefined) {
+    lines.push(`You can only use these tools: ${policy.allow.join(', ') || '(none)'}.`);
+  }
+  if (policy.deny && policy.deny.length > 0) {
+    lines.push(`These tools are not available: ${policy.deny.join(', ')}.`);
+  }
+  lines.push('Other tool calls are denied. Skip instructions that need a tool you do not have.');
+  if (!isToolAllowed(policy, 'Bash') && isToolAllowed(policy, 'Edit')) {
+    lines.push(
+      'You cannot run shell commands, so do not try to run tests or create git commits: ' +
+        'the harness commits your changes when the session ends.'
+    );
+  }
+  return `${systemPrompt}\n\n${lines.join('\n')}`;
+}
+
+function matchesTool(pattern: string, toolName: string): boolean {
+  return pattern.endsWith('*')
+    ? toolName.startsWith(pattern.slice(0, -1))
+    : pattern === toolName;
+}
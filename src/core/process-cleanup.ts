@@ -0,0 +1,164 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, readdir } from 'node:fs/promises';
+import type { KilledProcess } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+/** How long a process gets to exit after SIGTERM before it is killed */
+const TERM_GRACE_MS = 3000;
+
+/**
+ * Set in the environment of the agent and of the commands the harness runs
+ * for a session; every process they start inherits it
+ */
+export const SESSION_ENV_VAR = 'HARNESS_ATTEMPT_ID';
+
+export interface ProjectProcess {
+  pid: number;
+  command: string;
+}
+
+/**
+ * Processes carrying this session's marker in their environment (dev
+ * servers, test watchers, anything the agent or a verification command
+ * started). A shell or dev server the user opens meanwhile doesn't have it.
+ * The harness itself is never included.
+ */
+export async function listSessionProcesses(attemptId: string): Promise<ProjectProcess[]> {
+  const marker = `${SESSION_ENV_VAR}=${attemptId}`;
+  const processes = process.platform === 'linux'
+    ? await listFromProc(marker)
+    : await listFromPs(marker);
+  return processes.filter(({ pid }) => pid !== process.pid);
+}
+
+/**
+ * Marks the processes of one session, so only those are killed afterwards
+ */
+export class ProcessTracker {
+  private attemptId: string;
+
+  constructor(attemptId: string) {
+    this.attemptId = attemptId;
+  }
+
+  /**
+   * Environment to give the agent and the session's commands
+   */
+  get env(): Record<string, string> {
+    return { [SESSION_ENV_VAR]: this.attemptId };
+  }
+
+  /**
+   * Kill the processes the session started that are still running
+   */
+  async killLeftovers(): Promise<KilledProcess[]> {
+    return killProcesses(await listSessionProcesses(this.attemptId));
+  }
+}
+
+/**
+ * Kill whatever listens on these TCP ports
+ */
+export async function freePorts(ports: number[]): Promise<KilledProcess[]> {
+  const killed: KilledProcess[] = [];
+  for (const port of ports) {
+    const holders = await findListeners(port);
+    for (const holder of await killProcesses(holders)) {
+      killed.push({ ...holder, port });
+    }
+  }
+  return killed;
+}
+
+/**
+ * SIGTERM, then SIGKILL for the ones still alive after a grace period.
+ * Processes that are already gone (or not ours to kill) are left out.
+ */
+async function killProcesses(processes: ProjectProcess[]): Promise<KilledProcess[]> {
+  const signalled = processes.filter((p) => sendSignal(p.pid, 'SIGTERM'));
+  if (signalled.length === 0) {
+    return [];
+  }
+
+  const deadline = Date.now() + TERM_GRACE_MS;
+  while (Date.now() < deadline && signalled.some((p) => isAlive(p.pid))) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  for (const p of signalled) {
+    if (isAlive(p.pid)) {
+      sendSignal(p.pid, 'SIGKILL');
+    }
+  }
+
+  return signalled.map(({ pid, command }) => ({ pid, command }));
+}
+
+function sendSignal(pid: number, signal: NodeJS.Signals | 0): boolean {
+  try {
+    process.kill(pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  return sendSignal(pid, 0);
+}
+
+async function listFromProc(marker: string): Promise<ProjectProcess[]> {
+  const entries = await readdir('/proc');
+  const processes: ProjectProcess[] = [];
+
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const environ = await readFile(`/proc/${entry}/environ`, 'utf-8');
+      if (!environ.split('\0').includes(marker)) continue;
+      const cmdline = await readFile(`/proc/${entry}/cmdline`, 'utf-8');
+      processes.push({
+        pid: Number(entry),
+        command: cmdline.split('\0').filter(Boolean).join(' '),
+      });
+    } catch {
+      // Gone already, a kernel thread, or owned by another user
+    }
+  }
+
+  return processes;
+}
+
+async function listFromPs(marker: string): Promise<ProjectProcess[]> {
+  // -E appends each process's environment to its command (own processes only)
+  const { stdout } = await execAsync('ps -A -E -ww -o pid=,command=', { maxBuffer: 64 * 1024 * 1024 });
+  const processes: ProjectProcess[] = [];
+  for (const line of stdout.split('\n')) {
+    const match = /^\s*(\d+)\s+(.*)$/.exec(line);
+    const index = match?.[2]?.indexOf(` ${marker}`) ?? -1;
+    if (!match || index === -1) continue;
+    processes.push({ pid: Number(match[1]), command: (match[2] ?? '').slice(0, index) });
+  }
+  return processes;
+}
+
+async function findListeners(port: number): Promise<ProjectProcess[]> {
+  try {
+    const { stdout } = await execAsync(`lsof -n -P -iTCP:${port} -sTCP:LISTEN -F pc`);
+    const listeners: ProjectProcess[] = [];
+    let current: ProjectProcess | undefined;
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('p')) {
+        current = { pid: Number(line.slice(1)), command: '' };
+        listeners.push(current);
+      } else if (line.startsWith('c') && current) {
+        current.command = line.slice(1);
+      }
+    }
+    return listeners.filter((p) => p.pid !== process.pid);
+  } catch {
+    // lsof exits with 1 when nothing listens on the port
+    return [];
+  }
+}
@@ -0,0 +1,89 @@
+import type { ProgressEntry } from '../types/index.js';
+import { formatDuration } from './email-notifier.js';
+
+const MAX_SUMMARY_LENGTH = 2000;
+
+/**
+ * Serialize an entry as a single progress.log line
+ */
+export function formatProgressEntry(entry: ProgressEntry): string {
+  return JSON.stringify(entry);
+}
+
+/**
+ * Parse the structured entries of progress.log.
+ * Header comments (#) and free-form entries from older harness versions are skipped.
+ */
+export function parseProgressLog(content: string): ProgressEntry[] {
+  const entries: ProgressEntry[] = [];
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+
+    try {
+      const parsed = JSON.parse(trimmed) as Partial<ProgressEntry>;
+      if (typeof parsed.featureId === 'string' && typeof parsed.outcome === 'string') {
+        entries.push(parsed as ProgressEntry);
+      }
+    } catch {
+      // Not a harness entry
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Render entries as readable text for the agent prompt
+ */
+export function renderProgressEntries(entries: ProgressEntry[]): string {
+  return entries
+    .map((entry) => {
+      const details = [
+        entry.commit ? `commit ${entry.commit.slice(0, 7)}` : undefined,
+        entry.durationMs !== undefined ? formatDuration(entry.durationMs) : undefined,
+        entry.costUsd !== undefined ? `$${entry.costUsd.toFixed(2)}` : undefined,
+      ].filter(Boolean);
+
+      const header = `[${entry.timestamp}] [${entry.featureId}] ${entry.title} - ${entry.outcome.toUpperCase()}`;
+      const summary = entry.summary
+        .split('\n')
+        .map((line) => `  ${line}`)
+        .join('\n');
+
+      return [
+        details.length > 0 ? `${header} (${details.join(', ')})` : header,
+        summary,
+      ]
+        .filter((part) => part.trim())
+        .join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Pull the closing summary out of the agent's final output.
+ * Prefers the last "SUMMARY" heading; falls back to the last paragraph.
+ */
+export function extractSummary(output: string): string {
+  const text = output.trim();
+  if (!text) {
+    return '';
+  }
+
+  const headings = [...text.matchAll(/^#{1,6}\s*(?:\d+\.\s*)?(?:SESSION\s+)?SUMMARY\b.*$/gim)];
+  const lastHeading = headings[headings.length - 1];
+
+  let summary: string;
+  if (lastHeading?.index !== undefined) {
+    summary = text.slice(lastHeading.index + lastHeading[0].length).trim();
+  } else {
+    const paragraphs = text.split(/\n\s*\n/);
+    summary = (paragraphs[paragraphs.length - 1] ?? '').trim();
+  }
+
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_SUMMARY_LENGTH)}…`
+    : summary;
+}
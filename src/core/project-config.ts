@@ -0,0 +1,555 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { getHarnessDir } from './harness-dir.js';
+import { parseActiveHours } from './active-hours.js';
+import { COMMAND_RULES, isCommandRule } from './command-policy.js';
+import { isPolicyAgent, POLICY_AGENTS } from './permission-policy.js';
+import { isStuckAction, STUCK_ACTIONS } from './retry-policy.js';
+import { isRollbackPolicy, ROLLBACK_POLICIES } from './rollback.js';
+import type { MCPServerConfig } from './agent-sdk-client.js';
+import type {
+  CommandPolicy,
+  DeniedCommandPattern,
+  PolicyAgent,
+  RollbackPolicy,
+  SandboxOptions,
+  StuckAction,
+  ToolPolicy,
+  VerificationCommand,
+} from '../types/index.js';
+
+/**
+ * Per-project harness settings, read from .harness/config.json. The user's
+ * own config file has the same shape and sits below the project's.
+ */
+export interface HarnessProjectConfig {
+  /** Claude model for every agent (default: Claude Code's own default) */
+  model?: string | undefined;
+  /** Turns per coding session */
+  maxTurns?: number | undefined;
+  /** Supabase project ref for the Supabase MCP server */
+  supabaseRef?: string | undefined;
+  notifications?: {
+    /** Send an e-mail when run/loop finish (SMTP settings stay in the environment) */
+    enabled?: boolean | undefined;
+    /** Recipient, instead of NOTIFICATION_EMAIL */
+    to?: string | undefined;
+  } | undefined;
+  /** MCP servers added to the built-in ones; null removes one (e.g. "shadcn": null) */
+  mcpServers?: Record<string, MCPServerConfig | null> | undefined;
+  run?: {
+    /** What to do with the changes of a failed session */
+    rollback?: RollbackPolicy | undefined;
+  } | undefined;
+  loop?: {
+    maxSessions?: number | undefined;
+    /** Failed attempts per feature before escalating */
+    maxAttempts?: number | undefined;
+    /** Pause between sessions; doubles with each failure of the same feature */
+    retryDelaySeconds?: number | undefined;
+    onStuck?: StuckAction | undefined;
+    rollback?: RollbackPolicy | undefined;
+    /** Features run at once, each in its own worktree */
+    parallel?: number | undefined;
+    /** Pause after a usage limit with no reset time; doubles with each limit in a row */
+    limitBackoffMinutes?: number | undefined;
+    /** Only start sessions in this local time window (e.g. "22:00-06:00") */
+    activeHours?: string | undefined;
+  } | undefined;
+  verification?: {
+    /** Replaces the commands detected from package.json; [] disables verification */
+    commands?: VerificationCommand[] | undefined;
+    /** Timeout per command */
+    timeoutMs?: number | undefined;
+  } | undefined;
+  transcripts?: {
+    /** Record session transcripts in .harness/sessions (default: true) */
+    enabled?: boolean | undefined;
+    /** Size limit per transcript in bytes */
+    maxBytes?: number | undefined;
+    /** Transcripts older than this are deleted */
+    maxAgeDays?: number | undefined;
+    /** Oldest transcripts are deleted beyond this total size in bytes */
+    maxTotalBytes?: number | undefined;
+  } | undefined;
+  processes?: {
+    /** Kill processes a session left running inside the project (default: true) */
+    cleanup?: boolean | undefined;
+    /** Kill whatever listens on these ports before each session */
+    freePorts?: number[] | undefined;
+  } | undefined;
+  /** Tool policy per agent, replacing its default (e.g. "docs": { "deny": ["Bash"] }) */
+  permissions?: Partial<Record<PolicyAgent, ToolPolicy>> | undefined;
+  /** Where agents may write besides the project (e.g. "allowedPaths": ["../shared"]) */
+  sandbox?: SandboxOptions | undefined;
+  /** Bash command rules: built-in ones to turn off, patterns to deny */
+  commands?: CommandPolicy | undefined;
+}
+
+export function getProjectConfigPath(projectPath: string): string {
+  return join(getHarnessDir(projectPath), 'config.json');
+}
+
+/**
+ * The user's own config, shared by all projects
+ * ($XDG_CONFIG_HOME/harness/config.json, ~/.config by default)
+ */
+export function getUserConfigPath(): string {
+  return join(process.env['XDG_CONFIG_HOME'] || join(homedir(), '.config'), 'harness', 'config.json');
+}
+
+/**
+ * Load the project config on top of the user's one (empty if neither file
+ * exists). Throws on invalid JSON or shape so a typo doesn't silently
+ * disable settings.
+ */
+export async function loadProjectConfig(projectPath: string): Promise<HarnessProjectConfig> {
+  const { user, project } = await loadConfigFiles(projectPath);
+  return mergeConfigs(user, project);
+}
+
+/**
+ * Both config files, unmerged. Relative paths in either one resolve
+ * against the project.
+ */
+export async function loadConfigFiles(
+  projectPath: string
+): Promise<{ user: HarnessProjectConfig; project: HarnessProjectConfig }> {
+  return {
+    user: await loadUserConfig(projectPath),
+    project: await readConfigFile(getProjectConfigPath(projectPath), projectPath),
+  };
+}
+
+export async function loadUserConfig(projectPath: string): Promise<HarnessProjectConfig> {
+  return readConfigFile(getUserConfigPath(), projectPath);
+}
+
+/**
+ * Later configs win, key by key inside each section (e.g. a project's
+ * "loop.maxAttempts" keeps the user's "loop.parallel"). Values below a
+ * section's keys, like a tool policy or an MCP server, are replaced whole.
+ */
+export function mergeConfigs(...configs: HarnessProjectConfig[]): HarnessProjectConfig {
+  const merged: Record<string, unknown> = {};
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined) continue;
+      const current = merged[key];
+      merged[key] = isSection(value)
+        ? { ...(isSection(current) ? current : {}), ...definedEntries(value) }
+        : value;
+    }
+  }
+  return merged as HarnessProjectConfig;
+}
+
+export function isSection(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function definedEntries(section: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(section).filter(([, value]) => value !== undefined));
+}
+
+async function readConfigFile(path: string, projectPath: string): Promise<HarnessProjectConfig> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid ${path}: expected a JSON object`);
+  }
+
+  const config = raw as Record<string, unknown>;
+  const { model, maxTurns, supabaseRef } = config;
+  for (const [key, text] of Object.entries({ model, supabaseRef })) {
+    if (text !== undefined && (typeof text !== 'string' || text === '')) {
+      throw new Error(`Invalid ${path}: "${key}" must be a non-empty string`);
+    }
+  }
+  if (maxTurns !== undefined && !isPositiveInteger(maxTurns)) {
+    throw new Error(`Invalid ${path}: "maxTurns" must be a positive integer`);
+  }
+
+  return {
+    model: model as string | undefined,
+    maxTurns: maxTurns as number | undefined,
+    supabaseRef: supabaseRef as string | undefined,
+    notifications: parseNotifications(config['notifications'], path),
+    mcpServers: parseMcpServers(config['mcpServers'], path),
+    run: parseRun(config['run'], path),
+    loop: parseLoop(config['loop'], path),
+    verification: parseVerification(config['verification'], path),
+    transcripts: parseTranscripts(config['transcripts'], path),
+    processes: parseProcesses(config['processes'], path),
+    permissions: parsePermissions(config['permissions'], path),
+    sandbox: parseSandbox(config['sandbox'], path, projectPath),
+    commands: parseCommands(config['commands'], path),
+  };
+}
+
+function parseNotifications(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['notifications'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "notifications" must be an object`);
+  }
+
+  const { enabled, to } = value as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error(`Invalid ${path}: "notifications.enabled" must be a boolean`);
+  }
+  if (to !== undefined && (typeof to !== 'string' || !to.includes('@'))) {
+    throw new Error(`Invalid ${path}: "notifications.to" must be an e-mail address`);
+  }
+
+  return { enabled, to: to as string | undefined };
+}
+
+function parseMcpServers(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['mcpServers'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isSection(value)) {
+    throw new Error(`Invalid ${path}: "mcpServers" must be an object`);
+  }
+
+  const servers: Record<string, MCPServerConfig | null> = {};
+  for (const [name, server] of Object.entries(value)) {
+    if (server === null) {
+      servers[name] = null;
+      continue;
+    }
+    const { command, args, url, type } = (isSection(server) ? server : {}) as Record<string, unknown>;
+    const isStdio = typeof command === 'string' &&
+      (args === undefined || (Array.isArray(args) && args.every((arg) => typeof arg === 'string')));
+    const isHttp = typeof url === 'string' && (type === 'http' || type === 'sse');
+    if (!isStdio && !isHttp) {
+      throw new Error(
+        `Invalid ${path}: "mcpServers.${name}" must be null, { "command", "args" } or { "type": "http" | "sse", "url" }`
+      );
+    }
+    // args is optional in the file, not for the SDK
+    servers[name] = isStdio
+      ? { ...(server as object), command, args: (args as string[] | undefined) ?? [] }
+      : server as MCPServerConfig;
+  }
+
+  return servers;
+}
+
+function parseRun(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['run'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "run" must be an object`);
+  }
+
+  const { rollback } = value as Record<string, unknown>;
+
+  if (rollback !== undefined && !isRollbackPolicy(rollback)) {
+    throw new Error(`Invalid ${path}: "run.rollback" must be one of ${ROLLBACK_POLICIES.join(', ')}`);
+  }
+
+  return { rollback };
+}
+
+function parseLoop(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['loop'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "loop" must be an object`);
+  }
+
+  const {
+    maxSessions,
+    maxAttempts,
+    retryDelaySeconds,
+    onStuck,
+    rollback,
+    parallel,
+    limitBackoffMinutes,
+    activeHours,
+  } = value as Record<string, unknown>;
+
+  for (const [key, count] of Object.entries({ maxSessions, maxAttempts, parallel })) {
+    if (count !== undefined && !isPositiveInteger(count)) {
+      throw new Error(`Invalid ${path}: "loop.${key}" must be a positive integer`);
+    }
+  }
+  if (retryDelaySeconds !== undefined && (typeof retryDelaySeconds !== 'number' || retryDelaySeconds < 0)) {
+    throw new Error(`Invalid ${path}: "loop.retryDelaySeconds" must be a number of seconds`);
+  }
+  if (limitBackoffMinutes !== undefined && (typeof limitBackoffMinutes !== 'number' || limitBackoffMinutes < 1)) {
+    throw new Error(`Invalid ${path}: "loop.limitBackoffMinutes" must be a number of minutes, at least 1`);
+  }
+  if (onStuck !== undefined && !isStuckAction(onStuck)) {
+    throw new Error(`Invalid ${path}: "loop.onStuck" must be one of ${STUCK_ACTIONS.join(', ')}`);
+  }
+  if (rollback !== undefined && !isRollbackPolicy(rollback)) {
+    throw new Error(`Invalid ${path}: "loop.rollback" must be one of ${ROLLBACK_POLICIES.join(', ')}`);
+  }
+  if (activeHours !== undefined && !isActiveHours(activeHours)) {
+    throw new Error(`Invalid ${path}: "loop.activeHours" must be a window like "22:00-06:00"`);
+  }
+
+  return {
+    maxSessions: maxSessions as number | undefined,
+    maxAttempts: maxAttempts as number | undefined,
+    retryDelaySeconds: retryDelaySeconds as number | undefined,
+    onStuck,
+    rollback,
+    parallel: parallel as number | undefined,
+    limitBackoffMinutes: limitBackoffMinutes as number | undefined,
+    activeHours: activeHours as string | undefined,
+  };
+}
+
+function parseVerification(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['verification'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "verification" must be an object`);
+  }
+
+  const { commands, timeoutMs } = value as Record<string, unknown>;
+
+  if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || timeoutMs <= 0)) {
+    throw new Error(`Invalid ${path}: "verification.timeoutMs" must be a positive number`);
+  }
+
+  if (commands !== undefined && !Array.isArray(commands)) {
+    throw new Error(`Invalid ${path}: "verification.commands" must be an array`);
+  }
+
+  return {
+    commands: commands?.map((entry: unknown, index: number): VerificationCommand => {
+      // Plain strings are accepted as shorthand for { name: command, command }
+      if (typeof entry === 'string') {
+        return { name: entry, command: entry };
+      }
+      const { name, command } = (entry ?? {}) as Record<string, unknown>;
+      if (typeof command !== 'string' || (name !== undefined && typeof name !== 'string')) {
+        throw new Error(
+          `Invalid ${path}: "verification.commands[${index}]" must be a string or { "name", "command" }`
+        );
+      }
+      return { name: name ?? command, command };
+    }),
+    timeoutMs,
+  };
+}
+
+function parseTranscripts(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['transcripts'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "transcripts" must be an object`);
+  }
+
+  const { enabled, maxBytes, maxAgeDays, maxTotalBytes } = value as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error(`Invalid ${path}: "transcripts.enabled" must be a boolean`);
+  }
+  for (const [key, limit] of Object.entries({ maxBytes, maxAgeDays, maxTotalBytes })) {
+    if (limit !== undefined && (typeof limit !== 'number' || limit <= 0)) {
+      throw new Error(`Invalid ${path}: "transcripts.${key}" must be a positive number`);
+    }
+  }
+
+  return {
+    enabled,
+    maxBytes: maxBytes as number | undefined,
+    maxAgeDays: maxAgeDays as number | undefined,
+    maxTotalBytes: maxTotalBytes as number | undefined,
+  };
+}
+
+function parseProcesses(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['processes'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "processes" must be an object`);
+  }
+
+  const { cleanup, freePorts } = value as Record<string, unknown>;
+
+  if (cleanup !== undefined && typeof cleanup !== 'boolean') {
+    throw new Error(`Invalid ${path}: "processes.cleanup" must be a boolean`);
+  }
+  if (freePorts !== undefined && (!Array.isArray(freePorts) || !freePorts.every(isPort))) {
+    throw new Error(`Invalid ${path}: "processes.freePorts" must be an array of port numbers`);
+  }
+
+  return { cleanup, freePorts: freePorts as number[] | undefined };
+}
+
+function parsePermissions(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['permissions'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid ${path}: "permissions" must be an object`);
+  }
+
+  const permissions: Partial<Record<PolicyAgent, ToolPolicy>> = {};
+  for (const [agent, policy] of Object.entries(value)) {
+    if (!isPolicyAgent(agent)) {
+      throw new Error(
+        `Invalid ${path}: "permissions.${agent}" is not an agent (expected one of ${POLICY_AGENTS.join(', ')})`
+      );
+    }
+    if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+      throw new Error(`Invalid ${path}: "permissions.${agent}" must be an object`);
+    }
+
+    const { allow, deny } = policy as Record<string, unknown>;
+    for (const [key, tools] of Object.entries({ allow, deny })) {
+      if (tools !== undefined && (!Array.isArray(tools) || !tools.every((t) => typeof t === 'string'))) {
+        throw new Error(`Invalid ${path}: "permissions.${agent}.${key}" must be an array of tool names`);
+      }
+    }
+    permissions[agent] = { allow: allow as string[] | undefined, deny: deny as string[] | undefined };
+  }
+
+  return permissions;
+}
+
+function parseSandbox(
+  value: unknown,
+  path: string,
+  projectPath: string
+): HarnessProjectConfig['sandbox'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "sandbox" must be an object`);
+  }
+
+  const { enabled, allowedPaths } = value as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error(`Invalid ${path}: "sandbox.enabled" must be a boolean`);
+  }
+  if (
+    allowedPaths !== undefined &&
+    (!Array.isArray(allowedPaths) || !allowedPaths.every((p) => typeof p === 'string'))
+  ) {
+    throw new Error(`Invalid ${path}: "sandbox.allowedPaths" must be an array of paths`);
+  }
+
+  // Relative to the project, not to wherever the agent's working directory is (worktrees)
+  return {
+    enabled,
+    allowedPaths: (allowedPaths as string[] | undefined)?.map((p) => (p.startsWith('~') ? p : resolve(projectPath, p))),
+  };
+}
+
+function parseCommands(
+  value: unknown,
+  path: string
+): HarnessProjectConfig['commands'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Invalid ${path}: "commands" must be an object`);
+  }
+
+  const { disable, deny } = value as Record<string, unknown>;
+
+  if (disable !== undefined && (!Array.isArray(disable) || !disable.every((id) => typeof id === 'string'))) {
+    throw new Error(`Invalid ${path}: "commands.disable" must be an array of rule ids`);
+  }
+  for (const id of (disable as string[] | undefined) ?? []) {
+    if (!isCommandRule(id)) {
+      throw new Error(
+        `Invalid ${path}: "commands.disable" has unknown rule "${id}" (expected one of ${COMMAND_RULES.join(', ')})`
+      );
+    }
+  }
+
+  if (deny !== undefined && !Array.isArray(deny)) {
+    throw new Error(`Invalid ${path}: "commands.deny" must be an array`);
+  }
+
+  return {
+    disable: disable as string[] | undefined,
+    deny: deny?.map((entry: unknown, index: number): DeniedCommandPattern => {
+      // Plain strings are accepted as shorthand for { pattern }
+      const { pattern, reason } = (typeof entry === 'string' ? { pattern: entry } : entry ?? {}) as Record<string, unknown>;
+      if (typeof pattern !== 'string' || (reason !== undefined && typeof reason !== 'string')) {
+        throw new Error(
+          `Invalid ${path}: "commands.deny[${index}]" must be a string or { "pattern", "reason" }`
+        );
+      }
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(`Invalid ${path}: "commands.deny[${index}]" is not a valid regular expression`);
+      }
+      return { pattern, reason };
+    }),
+  };
+}
+
+function isActiveHours(value: unknown): value is string {
+  try {
+    return typeof value === 'string' && parseActiveHours(value) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+export function isPort(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value < 65536;
+}
@@ -0,0 +1,78 @@
+import type { StuckAction } from '../types/index.js';
+
+export const STUCK_ACTIONS: StuckAction[] = ['block', 'atomize', 'stop'];
+
+export interface RetryPolicy {
+  /** Attempts per feature within one loop run before escalating */
+  maxAttempts: number;
+  /** Delay after a success and before the first retry; doubles with each failure */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onStuck: StuckAction;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+  onStuck: 'block',
+};
+
+export function isStuckAction(value: unknown): value is StuckAction {
+  return typeof value === 'string' && STUCK_ACTIONS.includes(value as StuckAction);
+}
+
+/**
+ * Exponential backoff: base, 2×base, 4×base, ... capped at maxDelayMs
+ */
+export function getRetryDelay(policy: RetryPolicy, failures: number): number {
+  if (failures <= 0) {
+    return policy.baseDelayMs;
+  }
+  return Math.min(policy.baseDelayMs * 2 ** (failures - 1), policy.maxDelayMs);
+}
+
+/**
+ * Tracks failed attempts per feature during a loop run
+ */
+export class AttemptTracker {
+  private policy: RetryPolicy;
+  private failures = new Map<string, number>();
+  private failedAt = new Map<string, number>();
+
+  constructor(policy: RetryPolicy) {
+    this.policy = policy;
+  }
+
+  recordFailure(featureId: string): number {
+    const count = (this.failures.get(featureId) ?? 0) + 1;
+    this.failures.set(featureId, count);
+    this.failedAt.set(featureId, Date.now());
+    return count;
+  }
+
+  recordSuccess(featureId: string): void {
+    this.failures.delete(featureId);
+    this.failedAt.delete(featureId);
+  }
+
+  getFailures(featureId: string): number {
+    return this.failures.get(featureId) ?? 0;
+  }
+
+  isStuck(featureId: string): boolean {
+    return this.getFailures(featureId) >= this.policy.maxAttempts;
+  }
+
+  getDelay(featureId: string): number {
+    return getRetryDelay(this.policy, this.getFailures(featureId));
+  }
+
+  /**
+   * When a failed feature may be tried again (epoch ms); 0 if it hasn't failed
+   */
+  getRetryAt(featureId: string): number {
+    const failedAt = this.failedAt.get(featureId);
+    return failedAt === undefined ? 0 : failedAt + this.getDelay(featureId);
+  }
+}
@@ -0,0 +1,136 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { HARNESS_DIR_NAME } from './harness-dir.js';
+import type { RollbackPolicy, RollbackRecord } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+export const ROLLBACK_POLICIES: RollbackPolicy[] = ['stash', 'reset', 'none'];
+
+/** Files owned by the harness that survive a rollback */
+export const HARNESS_FILES = ['feature_list.json', 'progress.log'];
+
+/**
+ * Commits made by the harness itself (snapshots, merges) don't depend on the user's git identity
+ */
+export const HARNESS_GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'harness',
+  GIT_AUTHOR_EMAIL: 'harness@localhost',
+  GIT_COMMITTER_NAME: 'harness',
+  GIT_COMMITTER_EMAIL: 'harness@localhost',
+};
+
+export interface RollbackOptions {
+  policy: RollbackPolicy;
+  attemptId: string;
+  /** HEAD before the session started */
+  fromCommit: string | undefined;
+}
+
+export function isRollbackPolicy(value: unknown): value is RollbackPolicy {
+  return typeof value === 'string' && ROLLBACK_POLICIES.includes(value as RollbackPolicy);
+}
+
+export function getAttemptRef(attemptId: string): string {
+  return `refs/harness/attempts/${attemptId}`;
+}
+
+/**
+ * Check for uncommitted changes, ignoring the harness's own files
+ */
+export async function hasUncommittedChanges(projectPath: string): Promise<boolean> {
+  try {
+    const { stdout } = await execAsync('git status --porcelain --untracked-files=all', {
+      cwd: projectPath,
+    });
+    return stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => line.slice(3))
+      .some((path) => !HARNESS_FILES.includes(path) && !path.startsWith(`${HARNESS_DIR_NAME}/`));
+  } catch {
+    // Not a git repository: nothing we could roll back anyway
+    return false;
+  }
+}
+
+/**
+ * Undo the changes of a failed session.
+ *
+ * stash: save the working tree (and any commits the agent made) under
+ *        refs/harness/attempts/<id>, then reset
+ * reset: hard-reset to the pre-session commit and drop untracked files
+ * none:  leave everything as is
+ *
+ * feature_list.json and progress.log keep their current content either way.
+ */
+export async function rollbackAttempt(
+  projectPath: string,
+  options: RollbackOptions
+): Promise<RollbackRecord> {
+  const { policy, attemptId, fromCommit } = options;
+
+  if (policy === 'none') {
+    return { policy };
+  }
+  if (!fromCommit) {
+    return { policy, skipped: 'no commit to roll back to' };
+  }
+
+  let ref: string | undefined;
+  if (policy === 'stash') {
+    ref = getAttemptRef(attemptId);
+    const snapshot = await snapshotWorkingTree(projectPath, `harness: abandoned attempt ${attemptId}`);
+    await git(projectPath, `update-ref ${ref} ${snapshot}`);
+  }
+
+  // Keep the harness files as they are now, not as they were committed
+  const preserved = new Map<string, string>();
+  for (const file of HARNESS_FILES) {
+    const path = join(projectPath, file);
+    if (existsSync(path)) {
+      preserved.set(path, await readFile(path, 'utf-8'));
+    }
+  }
+
+  await git(projectPath, `reset --hard ${fromCommit}`);
+  await git(projectPath, `clean -fd -e ${HARNESS_DIR_NAME}`);
+
+  for (const [path, content] of preserved) {
+    await writeFile(path, content, 'utf-8');
+  }
+
+  return ref ? { policy, ref } : { policy };
+}
+
+/**
+ * Commit the whole working tree (tracked and untracked files) without
+ * touching the real index, HEAD or branch. Returns the commit hash.
+ */
+async function snapshotWorkingTree(projectPath: string, message: string): Promise<string> {
+  // Outside the checkout, which may be a worktree that must not get a .harness/ of its own
+  const indexFile = join(tmpdir(), `harness-rollback-${randomUUID().slice(0, 8)}.index`);
+  const env = { ...process.env, ...HARNESS_GIT_IDENTITY, GIT_INDEX_FILE: indexFile };
+
+  try {
+    await execAsync('git add -A', { cwd: projectPath, env });
+    const tree = (await execAsync('git write-tree', { cwd: projectPath, env })).stdout.trim();
+    const { stdout } = await execAsync(
+      `git commit-tree ${tree} -p HEAD -m ${JSON.stringify(message)}`,
+      { cwd: projectPath, env }
+    );
+    return stdout.trim();
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
+
+async function git(projectPath: string, args: string): Promise<string> {
+  const { stdout } = await execAsync(`git ${args}`, { cwd: projectPath });
+  return stdout.trim();
+}
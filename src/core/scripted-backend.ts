@@ -0,0 +1,295 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { AgentBackend } from './agent-backend.js';
+import { createToolGuard, type AgentQueryOptions, type AgentQueryResult } from './agent-sdk-client.js';
+import { ContextBuilder } from './context-builder.js';
+import { isFeatureStatus } from './feature-lifecycle.js';
+import { decideToolCall, type ToolGuard } from './permission-policy.js';
+import { classifyUsageLimit } from './usage-limits.js';
+import type { FeatureStatus, TokenUsage } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Fixture for the scripted backend: one entry per agent query, used in order
+ */
+export interface AgentScript {
+  sessions: ScriptedSession[];
+}
+
+export interface ScriptedSession {
+  /** Only used for a coding session on this feature */
+  feature?: string | undefined;
+  /** Only used when the prompt contains this text */
+  match?: string | undefined;
+  steps: ScriptedStep[];
+  /** Defaults to a successful result whose output is the session's text */
+  result?: ScriptedResult | undefined;
+}
+
+/**
+ * One thing the fake agent does, applied in order:
+ * say something, write or delete a file, run a command, change a feature's
+ * status in feature_list.json, or emit a raw SDK message
+ */
+export type ScriptedStep =
+  | { text: string }
+  | { write: string; content: string }
+  | { delete: string }
+  | { run: string }
+  | { setStatus: FeatureStatus; feature?: string | undefined }
+  | { message: Record<string, unknown> };
+
+/** Steps the fake agent performs through a tool call */
+type ToolStep = Exclude<ScriptedStep, { text: string } | { message: Record<string, unknown> }>;
+
+export interface ScriptedResult {
+  success?: boolean | undefined;
+  output?: string | undefined;
+  /** Classified like a real error, so a limit message yields a usage limit */
+  error?: string | undefined;
+  totalCostUsd?: number | undefined;
+  numTurns?: number | undefined;
+  usage?: TokenUsage | undefined;
+}
+
+/**
+ * Deterministic fake agent that replays a fixture instead of calling Claude.
+ * Each query takes the first unused session that matches its prompt, applies
+ * its steps to the working directory and reports the scripted result. Every
+ * step is also emitted as an SDK-shaped message, so transcripts and replay
+ * work as with a real session.
+ */
+export class ScriptedAgentBackend implements AgentBackend {
+  readonly name = 'scripted';
+  private script: AgentScript;
+  private used = new Set<number>();
+
+  constructor(script: AgentScript) {
+    this.script = script;
+  }
+
+  /**
+   * Load a fixture from a JSON file. Throws on an invalid shape.
+   */
+  static async fromFile(path: string): Promise<ScriptedAgentBackend> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Invalid agent script ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const sessions = (raw as { sessions?: unknown } | null)?.sessions;
+    if (!Array.isArray(sessions)) {
+      throw new Error(`Invalid agent script ${path}: expected { "sessions": [...] }`);
+    }
+    sessions.forEach((session: unknown, index: number) => {
+      if (!Array.isArray((session as { steps?: unknown } | null)?.steps)) {
+        throw new Error(`Invalid agent script ${path}: "sessions[${index}].steps" must be an array`);
+      }
+    });
+
+    return new ScriptedAgentBackend(raw as AgentScript);
+  }
+
+  /**
+   * Sessions not used yet
+   */
+  get remaining(): number {
+    return this.script.sessions.length - this.used.size;
+  }
+
+  async runQuery(options: AgentQueryOptions): Promise<AgentQueryResult> {
+    const index = this.script.sessions.findIndex(
+      (session, i) => !this.used.has(i) && matchesPrompt(session, options.prompt)
+    );
+    const session = this.script.sessions[index];
+    if (!session) {
+      return { success: false, output: '', error: 'Agent script has no session left for this query' };
+    }
+    this.used.add(index);
+
+    const sessionId = options.resumeSessionId ?? randomUUID();
+    const emit = (message: Record<string, unknown>) => {
+      options.onMessage?.({ session_id: sessionId, ...message } as unknown as SDKMessage);
+    };
+
+    emit({ type: 'system', subtype: 'init', model: 'scripted', cwd: options.workingDirectory, tools: [] });
+
+    const guard = await createToolGuard(options);
+    let output = '';
+    const signal = options.abortController?.signal;
+    try {
+      for (const step of session.steps) {
+        if (signal?.aborted) break;
+        output += await this.applyStep(step, session, options, guard, emit);
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { success: false, output, error: `Scripted step failed: ${message}` };
+      }
+    }
+    // Like the SDK, an aborted session ends without a result message
+    if (signal?.aborted) {
+      return { success: false, output, error: 'Session aborted' };
+    }
+
+    const result = session.result ?? {};
+    const success = result.success ?? result.error === undefined;
+    const numTurns = result.numTurns ?? session.steps.length;
+    const totalCostUsd = result.totalCostUsd ?? 0;
+
+    emit({
+      type: 'result',
+      subtype: success ? 'success' : 'error_during_execution',
+      is_error: !success,
+      num_turns: numTurns,
+      total_cost_usd: totalCostUsd,
+      result: result.output ?? output,
+      errors: result.error ? [result.error] : [],
+    });
+
+    return {
+      success,
+      output: result.output ?? output,
+      error: success ? undefined : result.error ?? 'Scripted session failed',
+      totalCostUsd,
+      numTurns,
+      usage: result.usage,
+      usageLimit: success ? undefined : classifyUsageLimit(result.error ?? '') ?? undefined,
+    };
+  }
+
+  private async applyStep(
+    step: ScriptedStep,
+    session: ScriptedSession,
+    options: AgentQueryOptions,
+    guard: ToolGuard,
+    emit: (message: Record<string, unknown>) => void
+  ): Promise<string> {
+    const cwd = options.workingDirectory;
+
+    if ('text' in step) {
+      emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: step.text }] } });
+      options.onText?.(step.text);
+      return step.text;
+    }
+    if ('message' in step) {
+      emit(step.message);
+      return '';
+    }
+
+    // Every other step is a tool call followed by its result, as in a real session
+    const [name, input] = describeToolCall(step, cwd);
+    const id = randomUUID();
+    emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id, name, input }] } });
+    const toolResult = (content: string, isError: boolean) =>
+      emit({
+        type: 'user',
+        message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] },
+        parent_tool_use_id: null,
+      });
+
+    // Denied by the guard or the approver: reported back like the SDK does, the session goes on
+    const decision = await decideToolCall(guard, name, input, options.abortController?.signal);
+    if (!decision.allowed) {
+      if (decision.denial) {
+        options.onToolDenied?.(decision.denial);
+      }
+      toolResult(decision.message, true);
+      return '';
+    }
+
+    try {
+      await this.runTool(withInput(step, decision.input), session, options);
+    } catch (error) {
+      toolResult(error instanceof Error ? error.message : String(error), true);
+      throw error;
+    }
+    toolResult('ok', false);
+    return '';
+  }
+
+  private async runTool(
+    step: ToolStep,
+    session: ScriptedSession,
+    options: AgentQueryOptions
+  ): Promise<void> {
+    const cwd = options.workingDirectory;
+    const signal = options.abortController?.signal;
+    if ('write' in step) {
+      const path = resolve(cwd, step.write);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, step.content, 'utf-8');
+    } else if ('delete' in step) {
+      await rm(resolve(cwd, step.delete), { force: true });
+    } else if ('run' in step) {
+      await execAsync(step.run, {
+        cwd,
+        env: { ...process.env, ...options.env },
+        ...(signal ? { signal } : {}),
+      });
+    } else {
+      const featureId = step.feature ?? session.feature;
+      if (!featureId || !isFeatureStatus(step.setStatus)) {
+        throw new Error(`setStatus needs a valid status and a feature (got ${JSON.stringify(step)})`);
+      }
+      // Edited like an agent would: no lifecycle checks, so the guard sees what a real session could do
+      const contextBuilder = new ContextBuilder(cwd);
+      const featureList = await contextBuilder.loadFeatureList();
+      const feature = featureList?.features.find((f) => f.id === featureId);
+      if (!featureList || !feature) {
+        throw new Error(`Feature ${featureId} not found in feature_list.json`);
+      }
+      feature.status = step.setStatus;
+      await contextBuilder.saveFeatureList(featureList);
+    }
+  }
+}
+
+/**
+ * The tool a real agent would have used for a step
+ */
+function describeToolCall(
+  step: ToolStep,
+  cwd: string
+): [string, Record<string, unknown>] {
+  if ('write' in step) {
+    return ['Write', { file_path: resolve(cwd, step.write), content: step.content }];
+  }
+  if ('delete' in step) {
+    return ['Bash', { command: `rm -f ${step.delete}` }];
+  }
+  if ('run' in step) {
+    return ['Bash', { command: step.run }];
+  }
+  return ['Edit', { file_path: resolve(cwd, 'feature_list.json'), new_string: `"status": "${step.setStatus}"` }];
+}
+
+/**
+ * The step as the approver changed it (an edited command or file content)
+ */
+function withInput(step: ToolStep, input: Record<string, unknown>): ToolStep {
+  if ('write' in step && typeof input['content'] === 'string') {
+    return { ...step, content: input['content'] };
+  }
+  if ('run' in step && typeof input['command'] === 'string') {
+    return { run: input['command'] };
+  }
+  return step;
+}
+
+function matchesPrompt(session: ScriptedSession, prompt: string): boolean {
+  if (session.feature && !prompt.includes(`"id": "${session.feature}"`)) {
+    return false;
+  }
+  return !session.match || prompt.includes(session.match);
+}
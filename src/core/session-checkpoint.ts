@@ -0,0 +1,152 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { copyFile, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { isAbsolute, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { AttemptStore } from './attempt-store.js';
+import { HARNESS_FILES } from './rollback.js';
+import type { SessionCheckpoint } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+/** Minimum time between two checkpoint saves during a session */
+const SAVE_INTERVAL_MS = 5000;
+
+/**
+ * Identify HEAD plus the whole working tree (tracked and untracked files,
+ * minus the harness's own files) without touching the real index or
+ * writing anything to the workspace.
+ * Undefined when the workspace isn't a git repository.
+ */
+export async function getWorkspaceFingerprint(workspacePath: string): Promise<string | undefined> {
+  // Outside the workspace: reading its state must not create .harness/ in it
+  const indexFile = join(tmpdir(), `harness-fingerprint-${randomUUID().slice(0, 8)}.index`);
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+
+  try {
+    const head = (await execAsync('git rev-parse HEAD', { cwd: workspacePath })).stdout.trim();
+
+    // Start from the real index so unchanged files aren't hashed again
+    const realIndex = (await execAsync('git rev-parse --git-path index', { cwd: workspacePath })).stdout.trim();
+    const realIndexPath = isAbsolute(realIndex) ? realIndex : join(workspacePath, realIndex);
+    if (existsSync(realIndexPath)) {
+      await copyFile(realIndexPath, indexFile);
+    }
+
+    await execAsync('git add -A', { cwd: workspacePath, env });
+    await execAsync(`git rm -r -q --cached --ignore-unmatch -- ${HARNESS_FILES.join(' ')}`, {
+      cwd: workspacePath,
+      env,
+    });
+    const tree = (await execAsync('git write-tree', { cwd: workspacePath, env })).stdout.trim();
+    return `${head}:${tree}`;
+  } catch {
+    return undefined;
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
+
+/**
+ * Why an interrupted session can't be continued, or undefined if it can
+ */
+export async function findResumeProblem(
+  checkpoint: SessionCheckpoint | undefined,
+  workspacePath: string
+): Promise<string | undefined> {
+  if (!checkpoint) {
+    return 'no session id was saved';
+  }
+  if (!checkpoint.fingerprint) {
+    return 'the working tree state was not saved';
+  }
+  const current = await getWorkspaceFingerprint(workspacePath);
+  if (current !== checkpoint.fingerprint) {
+    return 'the working tree changed since the session stopped';
+  }
+  return undefined;
+}
+
+/**
+ * Keeps the attempt's checkpoint up to date while a session runs: the
+ * session id as soon as the agent reports it, and the working tree state
+ * after tool results (at most every few seconds, plus once at the end).
+ */
+export class SessionCheckpointer {
+  private store: AttemptStore;
+  private attemptId: string;
+  private workspacePath: string;
+  private sessionId: string | undefined;
+  private lastSave = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(store: AttemptStore, attemptId: string, workspacePath: string) {
+    this.store = store;
+    this.attemptId = attemptId;
+    this.workspacePath = workspacePath;
+  }
+
+  observe(message: SDKMessage): void {
+    if (!this.sessionId && message.session_id) {
+      this.sessionId = message.session_id;
+      this.save();
+      return;
+    }
+
+    // Tool results follow the tool calls that may have changed files
+    if (message.type === 'user' && this.sessionId) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Save the final state and wait for pending writes.
+   * With saveNow, the tree is saved even if nothing was scheduled (a tool
+   * may have been cut off halfway through).
+   */
+  async flush(saveNow = false): Promise<void> {
+    if (this.timer || saveNow) {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      this.save();
+    }
+    await this.saving;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    const wait = Math.max(0, this.lastSave + SAVE_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.save();
+    }, wait);
+    // Never keep the process alive just to save a checkpoint
+    this.timer.unref();
+  }
+
+  private save(): void {
+    const sessionId = this.sessionId;
+    if (!sessionId) {
+      return;
+    }
+    this.lastSave = Date.now();
+    this.saving = this.saving.then(async () => {
+      try {
+        const checkpoint: SessionCheckpoint = {
+          sessionId,
+          fingerprint: await getWorkspaceFingerprint(this.workspacePath),
+          savedAt: new Date().toISOString(),
+        };
+        await this.store.update(this.attemptId, { checkpoint });
+      } catch {
+        // A missed checkpoint only means the session can't be resumed
+      }
+    });
+  }
+}
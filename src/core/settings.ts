@@ -0,0 +1,170 @@
+import { DEFAULT_RETRY_POLICY } from './retry-policy.js';
+import {
+  getProjectConfigPath,
+  getUserConfigPath,
+  isSection,
+  loadConfigFiles,
+  loadUserConfig,
+  mergeConfigs,
+  type HarnessProjectConfig,
+} from './project-config.js';
+import type { RollbackPolicy } from '../types/index.js';
+
+type LoopSettings = NonNullable<HarnessProjectConfig['loop']>;
+
+/**
+ * Where a setting came from, lowest precedence first
+ */
+export type SettingSource = 'default' | 'user' | 'project' | 'env' | 'cli';
+
+/**
+ * Values every command can count on, whatever the layers above set
+ */
+export interface DefaultSettings {
+  maxTurns: number;
+  notifications: { enabled: boolean };
+  run: { rollback: RollbackPolicy };
+  loop: { [K in Exclude<keyof LoopSettings, 'activeHours'>]-?: NonNullable<LoopSettings[K]> };
+}
+
+export type HarnessSettings = HarnessProjectConfig & DefaultSettings;
+
+export const DEFAULT_SETTINGS: DefaultSettings = {
+  maxTurns: 50,
+  notifications: { enabled: false },
+  run: { rollback: 'none' },
+  loop: {
+    maxSessions: 100,
+    maxAttempts: DEFAULT_RETRY_POLICY.maxAttempts,
+    retryDelaySeconds: DEFAULT_RETRY_POLICY.baseDelayMs / 1000,
+    onStuck: DEFAULT_RETRY_POLICY.onStuck,
+    rollback: 'stash',
+    parallel: 1,
+    limitBackoffMinutes: 5,
+  },
+};
+
+/**
+ * Environment variables and the setting each one sets
+ */
+export const SETTING_ENV_VARS: Readonly<Record<string, string>> = {
+  HARNESS_MODEL: 'model',
+  HARNESS_MAX_TURNS: 'maxTurns',
+  SUPABASE_PROJECT_REF: 'supabaseRef',
+  NOTIFICATION_EMAIL: 'notifications.to',
+};
+
+export interface ResolvedSettings {
+  settings: HarnessSettings;
+  /** Layer each value came from, by key ("maxTurns", "loop.parallel"...) */
+  sources: Map<string, SettingSource>;
+  /** Config files that were looked for (they may not exist) */
+  files: { user: string; project?: string | undefined };
+}
+
+/**
+ * Effective settings: defaults < user config < project config < environment
+ * < command line. Without a project (e.g. before init) its layer is skipped.
+ * Throws if a config file or an environment variable is invalid.
+ */
+export async function resolveSettings(
+  projectPath: string | undefined,
+  cli: HarnessProjectConfig = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ResolvedSettings> {
+  const files = projectPath
+    ? await loadConfigFiles(projectPath)
+    : { user: await loadUserConfig(process.cwd()), project: {} };
+
+  const layers: Array<[SettingSource, HarnessProjectConfig]> = [
+    ['default', DEFAULT_SETTINGS],
+    ['user', files.user],
+    ['project', files.project],
+    ['env', readEnvSettings(env)],
+    ['cli', cli],
+  ];
+
+  const sources = new Map<string, SettingSource>();
+  for (const [source, config] of layers) {
+    for (const key of listKeys(config)) {
+      sources.set(key, source);
+    }
+  }
+
+  return {
+    // The defaults layer sets every key DefaultSettings requires, and merging never unsets one
+    settings: mergeConfigs(...layers.map(([, config]) => config)) as HarnessSettings,
+    sources,
+    files: {
+      user: getUserConfigPath(),
+      project: projectPath ? getProjectConfigPath(projectPath) : undefined,
+    },
+  };
+}
+
+/**
+ * Settings layer from the environment (HARNESS_MODEL, HARNESS_MAX_TURNS...)
+ */
+export function readEnvSettings(env: NodeJS.ProcessEnv = process.env): HarnessProjectConfig {
+  const config: HarnessProjectConfig = {};
+  const model = env['HARNESS_MODEL'];
+  const maxTurns = env['HARNESS_MAX_TURNS'];
+  const supabaseRef = env['SUPABASE_PROJECT_REF'];
+  const to = env['NOTIFICATION_EMAIL'];
+
+  if (model) {
+    config.model = model;
+  }
+  if (maxTurns) {
+    const turns = Number(maxTurns);
+    if (!Number.isInteger(turns) || turns <= 0) {
+      throw new Error(`Invalid HARNESS_MAX_TURNS: "${maxTurns}" is not a positive integer`);
+    }
+    config.maxTurns = turns;
+  }
+  if (supabaseRef) {
+    config.supabaseRef = supabaseRef;
+  }
+  if (to) {
+    config.notifications = { to };
+  }
+  return config;
+}
+
+/**
+ * Every value with its key, in the order they are listed by `harness config show`
+ */
+export function listSettings(
+  resolved: ResolvedSettings
+): Array<{ key: string; value: unknown; source: SettingSource }> {
+  return listKeys(resolved.settings).map((key) => ({
+    key,
+    value: getSetting(resolved.settings, key),
+    source: resolved.sources.get(key) ?? 'default',
+  }));
+}
+
+/**
+ * Keys set in a config: top-level values and the keys inside each section
+ */
+function listKeys(config: HarnessProjectConfig): string[] {
+  const keys: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) continue;
+    if (isSection(value)) {
+      for (const [subkey, subvalue] of Object.entries(value)) {
+        if (subvalue !== undefined) keys.push(`${key}.${subkey}`);
+      }
+    } else {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function getSetting(config: HarnessProjectConfig, key: string): unknown {
+  // Only the first dot separates: MCP server names may have their own
+  const dot = key.indexOf('.');
+  const value = (config as Record<string, unknown>)[dot === -1 ? key : key.slice(0, dot)];
+  return dot !== -1 && isSection(value) ? value[key.slice(dot + 1)] : value;
+}
@@ -0,0 +1,82 @@
+import { constants } from 'node:os';
+
+const SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+export interface ShutdownHandlerOptions {
+  /** Called on the first signal, once the running session has been told to stop */
+  onRequest?: ((signal: NodeJS.Signals) => void) | undefined;
+  /** Called on the second signal, right before the process exits */
+  onForce?: ((signal: NodeJS.Signals) => void) | undefined;
+}
+
+/**
+ * Turns the first SIGINT/SIGTERM into an abort of the running session, so the
+ * harness can record it as interrupted and stop cleanly. A second signal
+ * exits right away with the usual 128 + signal number code (130 for Ctrl-C).
+ */
+export class ShutdownHandler {
+  readonly abortController = new AbortController();
+  private options: ShutdownHandlerOptions;
+  private received: NodeJS.Signals | undefined;
+  private listener = (signal: NodeJS.Signals) => this.handle(signal);
+
+  constructor(options: ShutdownHandlerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a signal was received
+   */
+  get requested(): boolean {
+    return this.received !== undefined;
+  }
+
+  /**
+   * Exit code for a process that stopped because of the signal
+   */
+  get exitCode(): number {
+    return this.received ? 128 + constants.signals[this.received] : 0;
+  }
+
+  install(): void {
+    for (const signal of SIGNALS) {
+      process.on(signal, this.listener);
+    }
+  }
+
+  uninstall(): void {
+    for (const signal of SIGNALS) {
+      process.off(signal, this.listener);
+    }
+  }
+
+  /**
+   * Sleep that ends early when a shutdown is requested
+   */
+  wait(ms: number): Promise<void> {
+    const signal = this.abortController.signal;
+    if (signal.aborted) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  private handle(signal: NodeJS.Signals): void {
+    if (this.received) {
+      this.options.onForce?.(signal);
+      process.exit(128 + constants.signals[signal]);
+    }
+
+    this.received = signal;
+    this.abortController.abort(new Error(`Interrupted by ${signal}`));
+    this.options.onRequest?.(signal);
+  }
+}
@@ -0,0 +1,327 @@
+import { execFile, spawnSync } from 'node:child_process';
+import { promisify } from 'node:util';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { createInterface, type Interface } from 'node:readline';
+import { tmpdir } from 'node:os';
+import { basename, join, relative, resolve } from 'node:path';
+import chalk from 'chalk';
+import type { ToolApproval, ToolApprovalRequest } from './permission-policy.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Ferramentas que alteram arquivos e o campo com o caminho de cada uma
+ */
+const FILE_TOOLS: Record<string, string> = {
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+/**
+ * Campo com o conteúdo que o usuário pode editar antes de aprovar
+ */
+const EDITABLE_FIELDS: Record<string, string> = {
+  Write: 'content',
+  Edit: 'new_string',
+  NotebookEdit: 'new_source',
+  Bash: 'command',
+};
+
+/**
+ * Máximo de linhas mostradas de um diff
+ */
+const MAX_PREVIEW_LINES = 80;
+
+export interface SupervisorOptions {
+  /** Diretório da sessão, para mostrar caminhos relativos */
+  cwd: string;
+  input?: NodeJS.ReadableStream | undefined;
+  output?: NodeJS.WritableStream | undefined;
+}
+
+/**
+ * Sessão supervisionada: cada escrita de arquivo e cada comando Bash pausa
+ * com uma prévia (diff ou comando) até o usuário aprovar, negar ou editar.
+ * As outras ferramentas seguem sem perguntar.
+ */
+export class Supervisor {
+  private cwd: string;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private rl: Interface | null = null;
+  private lines: AsyncIterator<string> | null = null;
+  /** Arquivos com todas as edições restantes aprovadas */
+  private approvedFiles = new Set<string>();
+
+  constructor(options: SupervisorOptions) {
+    this.cwd = options.cwd;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+  }
+
+  async approve(request: ToolApprovalRequest): Promise<ToolApproval> {
+    const { toolName, input, signal } = request;
+    const pathField = FILE_TOOLS[toolName];
+    if (!pathField && toolName !== 'Bash') {
+      return { approved: true, input };
+    }
+
+    const path = pathField && typeof input[pathField] === 'string'
+      ? resolve(this.cwd, input[pathField])
+      : undefined;
+    if (path && this.approvedFiles.has(path)) {
+      this.print(chalk.gray(`\n✓ ${toolName} ${this.describePath(path)} (edições deste arquivo já aprovadas)\n`));
+      return { approved: true, input };
+    }
+
+    this.print(chalk.yellow.bold(`\n⏸ ${toolName}${path ? ` ${this.describePath(path)}` : ''}\n`));
+    this.print(await this.preview(toolName, input, path));
+
+    const editable = EDITABLE_FIELDS[toolName] !== undefined;
+    const choices = [
+      '[a] aprovar',
+      '[n] negar',
+      ...(editable ? ['[e] editar'] : []),
+      ...(path ? ['[t] aprovar todas as edições deste arquivo'] : []),
+    ];
+
+    for (;;) {
+      const answer = await this.ask(chalk.cyan(`${choices.join('  ')}: `), signal);
+      if (answer === undefined) {
+        return { approved: false, message: 'The session stopped before the user answered' };
+      }
+
+      switch (answer.trim().toLowerCase()) {
+        case 'a':
+          return { approved: true, input };
+        case 't':
+          if (!path) break;
+          this.approvedFiles.add(path);
+          return { approved: true, input };
+        case 'n': {
+          const reason = (await this.ask(chalk.cyan('Motivo (opcional, enviado ao agente): '), signal))?.trim();
+          return {
+            approved: false,
+            message: reason ? `The user denied this: ${reason}` : 'The user denied this tool call',
+          };
+        }
+        case 'e': {
+          if (!editable) break;
+          const edited = await this.edit(toolName, input, signal);
+          if (edited) {
+            this.print(chalk.gray('✎ Editado e aprovado\n'));
+            return { approved: true, input: edited };
+          }
+          this.print(chalk.gray('Nada mudou\n'));
+          continue;
+        }
+      }
+      this.print(chalk.gray(`Resposta inválida. Use: ${choices.join(', ')}\n`));
+    }
+  }
+
+  /**
+   * Libera o terminal (sem isso o processo não termina)
+   */
+  close(): void {
+    this.rl?.close();
+    this.rl = null;
+    this.lines = null;
+  }
+
+  private describePath(path: string): string {
+    const rel = relative(this.cwd, path);
+    return rel.startsWith('..') ? path : rel;
+  }
+
+  /**
+   * Comando a executar, ou o diff do arquivo como ficaria depois da escrita
+   */
+  private async preview(
+    toolName: string,
+    input: Record<string, unknown>,
+    path: string | undefined
+  ): Promise<string> {
+    if (toolName === 'Bash') {
+      const description = typeof input['description'] === 'string'
+        ? chalk.gray(`  # ${input['description']}\n`)
+        : '';
+      return `${description}${chalk.white(`  $ ${String(input['command'] ?? '')}`)}\n`;
+    }
+
+    const before = path && existsSync(path) ? await readFile(path, 'utf-8') : '';
+    const after = applyEdit(toolName, input, before);
+    if (after === undefined) {
+      // O trecho a substituir não está no arquivo: mostra só o que a ferramenta recebeu
+      return formatDiff([
+        ...String(input['old_string'] ?? '').split('\n').map((line) => `-${line}`),
+        ...String(input['new_string'] ?? '').split('\n').map((line) => `+${line}`),
+      ]);
+    }
+    return formatDiff(await unifiedDiff(before, after, basename(path ?? 'arquivo')));
+  }
+
+  /**
+   * Abre o conteúdo proposto para edição: o comando na própria linha, um
+   * arquivo no $EDITOR. Devolve a entrada alterada, ou null se nada mudou.
+   */
+  private async edit(
+    toolName: string,
+    input: Record<string, unknown>,
+    signal: AbortSignal | undefined
+  ): Promise<Record<string, unknown> | null> {
+    const field = EDITABLE_FIELDS[toolName] ?? '';
+    const current = String(input[field] ?? '');
+
+    if (toolName === 'Bash') {
+      const command = await this.ask(chalk.cyan('$ '), signal, current);
+      return command && command.trim() !== current ? { ...input, command: command.trim() } : null;
+    }
+
+    const edited = await this.openEditor(current, basename(String(input[FILE_TOOLS[toolName] ?? ''] ?? 'arquivo')));
+    return edited !== current ? { ...input, [field]: edited } : null;
+  }
+
+  private async openEditor(content: string, name: string): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'harness-edit-'));
+    const file = join(dir, name);
+    try {
+      await writeFile(file, content, 'utf-8');
+      // O editor precisa do terminal só para ele
+      this.close();
+      // Sem shell: o nome do arquivo vem do caminho escolhido pelo agente ($EDITOR pode ter argumentos, ex: "code -w")
+      const [editor = 'vi', ...args] = (process.env['VISUAL'] || process.env['EDITOR'] || 'vi').trim().split(/\s+/);
+      spawnSync(editor, [...args, file], { stdio: 'inherit' });
+      return await readFile(file, 'utf-8');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Lê uma linha do usuário; undefined se a entrada acabou ou a sessão parou
+   */
+  private async ask(
+    question: string,
+    signal: AbortSignal | undefined,
+    prefill?: string | undefined
+  ): Promise<string | undefined> {
+    if (signal?.aborted) {
+      return undefined;
+    }
+    const { rl, lines } = this.open();
+    rl.setPrompt(question);
+    rl.prompt();
+    if (prefill) {
+      rl.write(prefill);
+    }
+
+    const next = lines.next().then((result) => (result.done ? undefined : result.value));
+    if (!signal) {
+      return next;
+    }
+    return new Promise((resolvePromise) => {
+      const onAbort = () => resolvePromise(undefined);
+      signal.addEventListener('abort', onAbort, { once: true });
+      next.then((line) => {
+        signal.removeEventListener('abort', onAbort);
+        resolvePromise(line);
+      });
+    });
+  }
+
+  /**
+   * Uma só interface para toda a sessão: linhas digitadas (ou recebidas por
+   * um pipe) antes da pergunta não se perdem
+   */
+  private open(): { rl: Interface; lines: AsyncIterator<string> } {
+    if (!this.rl || !this.lines) {
+      this.rl = createInterface({ input: this.input, output: this.output });
+      // Em modo terminal o readline captura o Ctrl-C: repassa para o harness encerrar a sessão
+      this.rl.on('SIGINT', () => process.kill(process.pid, 'SIGINT'));
+      this.lines = this.rl[Symbol.asyncIterator]();
+    }
+    return { rl: this.rl, lines: this.lines };
+  }
+
+  private print(text: string): void {
+    this.output.write(text);
+  }
+}
+
+/**
+ * Conteúdo do arquivo depois da escrita; undefined se um trecho a
+ * substituir não foi encontrado
+ */
+function applyEdit(toolName: string, input: Record<string, unknown>, before: string): string | undefined {
+  switch (toolName) {
+    case 'Write':
+      return String(input['content'] ?? '');
+    case 'NotebookEdit':
+      return String(input['new_source'] ?? '');
+    case 'Edit':
+      return replace(before, input);
+    case 'MultiEdit': {
+      let content: string | undefined = before;
+      for (const edit of Array.isArray(input['edits']) ? input['edits'] : []) {
+        content = content === undefined ? undefined : replace(content, edit as Record<string, unknown>);
+      }
+      return content;
+    }
+    default:
+      return before;
+  }
+}
+
+function replace(content: string, edit: Record<string, unknown>): string | undefined {
+  const oldString = String(edit['old_string'] ?? '');
+  const newString = String(edit['new_string'] ?? '');
+  if (oldString === '') {
+    return newString + content;
+  }
+  if (!content.includes(oldString)) {
+    return undefined;
+  }
+  return edit['replace_all'] === true
+    ? content.split(oldString).join(newString)
+    : content.replace(oldString, () => newString);
+}
+
+/**
+ * Diff unificado com git (sem os cabeçalhos), que já é dependência do harness
+ */
+async function unifiedDiff(before: string, after: string, name: string): Promise<string[]> {
+  const dir = await mkdtemp(join(tmpdir(), 'harness-diff-'));
+  try {
+    await writeFile(join(dir, 'a'), before, 'utf-8');
+    await writeFile(join(dir, 'b'), after, 'utf-8');
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync('git', ['diff', '--no-index', '--no-color', '-U3', '--', 'a', 'b'], { cwd: dir }));
+    } catch (error) {
+      // Código 1: os arquivos são diferentes, a saída é o diff
+      stdout = (error as { stdout?: string }).stdout ?? '';
+    }
+    const lines = stdout.split('\n');
+    const start = lines.findIndex((line) => line.startsWith('@@'));
+    return start === -1 ? [`(sem mudanças em ${name})`] : lines.slice(start).filter((line) => line !== '');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function formatDiff(lines: string[]): string {
+  const shown = lines.slice(0, MAX_PREVIEW_LINES).map((line) => {
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return chalk.gray(line);
+  });
+  if (lines.length > MAX_PREVIEW_LINES) {
+    shown.push(chalk.gray(`… mais ${lines.length - MAX_PREVIEW_LINES} linhas`));
+  }
+  return `${shown.join('\n')}\n`;
+}
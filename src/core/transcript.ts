@@ -0,0 +1,177 @@
+import { createWriteStream, type WriteStream } from 'node:fs';
+import { mkdir, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { ensureHarnessDir, getHarnessDir } from './harness-dir.js';
+import type { TranscriptRecord } from '../types/index.js';
+
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DEFAULT_MAX_TOTAL_BYTES = 500 * 1024 * 1024;
+
+/**
+ * One line of a transcript file
+ */
+export interface TranscriptLine {
+  timestamp: string;
+  message: unknown;
+}
+
+export interface TranscriptRecorderOptions {
+  /** Stop recording (except result messages) beyond this size */
+  maxBytes?: number | undefined;
+}
+
+export interface TranscriptCleanupOptions {
+  maxAgeDays?: number | undefined;
+  maxTotalBytes?: number | undefined;
+  /** Never delete this transcript (e.g. the one just written) */
+  keep?: string | undefined;
+}
+
+export function getSessionsDir(projectPath: string): string {
+  return join(getHarnessDir(projectPath), 'sessions');
+}
+
+export function getTranscriptPath(projectPath: string, sessionId: string): string {
+  return join(getSessionsDir(projectPath), `${sessionId}.jsonl`);
+}
+
+/**
+ * Writes every SDK message of a session to .harness/sessions/<id>.jsonl
+ */
+export class TranscriptRecorder {
+  private projectPath: string;
+  private sessionId: string;
+  private maxBytes: number;
+  private stream: WriteStream | null = null;
+  private messages = 0;
+  private bytes = 0;
+  private dropped = 0;
+
+  constructor(projectPath: string, sessionId: string, options: TranscriptRecorderOptions = {}) {
+    this.projectPath = projectPath;
+    this.sessionId = sessionId;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  get path(): string {
+    return getTranscriptPath(this.projectPath, this.sessionId);
+  }
+
+  async open(): Promise<void> {
+    await ensureHarnessDir(this.projectPath);
+    await mkdir(getSessionsDir(this.projectPath), { recursive: true });
+    this.stream = createWriteStream(this.path, { flags: 'a' });
+  }
+
+  record(message: unknown): void {
+    if (!this.stream) {
+      return;
+    }
+
+    const line: TranscriptLine = { timestamp: new Date().toISOString(), message };
+    const json = `${JSON.stringify(line)}\n`;
+    const size = Buffer.byteLength(json);
+
+    // The result message is always kept: it carries the outcome and the cost
+    const isResult = (message as { type?: unknown } | null)?.type === 'result';
+    if (this.bytes + size > this.maxBytes && !isResult) {
+      this.dropped++;
+      return;
+    }
+
+    this.stream.write(json);
+    this.messages++;
+    this.bytes += size;
+  }
+
+  async close(): Promise<TranscriptRecord> {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      await new Promise<void>((resolve, reject) => {
+        stream.once('error', reject);
+        stream.end(resolve);
+      });
+    }
+
+    return {
+      path: relative(this.projectPath, this.path),
+      messages: this.messages,
+      bytes: this.bytes,
+      dropped: this.dropped > 0 ? this.dropped : undefined,
+    };
+  }
+}
+
+/**
+ * Read a recorded session, or null if there is no transcript for it.
+ * Lines that don't parse (a session killed mid-write) are skipped.
+ */
+export async function readTranscript(
+  projectPath: string,
+  sessionId: string
+): Promise<TranscriptLine[] | null> {
+  let content: string;
+  try {
+    content = await readFile(getTranscriptPath(projectPath, sessionId), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const lines: TranscriptLine[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      lines.push(JSON.parse(line) as TranscriptLine);
+    } catch {
+      // Incomplete last line
+    }
+  }
+  return lines;
+}
+
+/**
+ * Delete transcripts older than maxAgeDays, then the oldest ones until the
+ * rest fits in maxTotalBytes. Returns the deleted paths.
+ */
+export async function cleanupTranscripts(
+  projectPath: string,
+  options: TranscriptCleanupOptions = {}
+): Promise<string[]> {
+  const maxAgeMs = (options.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+  const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  const dir = getSessionsDir(projectPath);
+
+  let names: string[];
+  try {
+    names = (await readdir(dir)).filter((name) => name.endsWith('.jsonl'));
+  } catch {
+    return [];
+  }
+
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const path = join(dir, name);
+      const { size, mtimeMs } = await stat(path);
+      return { path, size, mtimeMs };
+    })
+  );
+  // Newest first
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const removed: string[] = [];
+  let totalBytes = 0;
+  for (const file of files) {
+    const keep = file.path === options.keep;
+    const tooOld = Date.now() - file.mtimeMs > maxAgeMs;
+    if (!keep && (tooOld || totalBytes + file.size > maxTotalBytes)) {
+      await rm(file.path, { force: true });
+      removed.push(file.path);
+      continue;
+    }
+    totalBytes += file.size;
+  }
+
+  return removed;
+}
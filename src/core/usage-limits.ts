@@ -0,0 +1,139 @@
+import type { UsageLimit } from '../types/index.js';
+
+/** Wait a little past the announced reset so the window has really reopened */
+const RESET_MARGIN_MS = 60 * 1000;
+
+/** Longest backoff when the error gives no reset time (one usage window) */
+const MAX_BACKOFF_MS = 5 * 60 * 60 * 1000;
+
+/**
+ * Consecutive limits a loop waits out without spending a session. Past
+ * that, each one counts against its session limit, so a limit that never
+ * clears (or a misread error) can't keep it going forever.
+ */
+export const FREE_LIMIT_HITS = 3;
+
+// Matched against the session's error, not the agent's output, but still
+// specific: "turn limit reached" or "line 429" are real failures
+const USAGE_LIMIT_PATTERNS = [
+  /\busage limit\b/i,
+  /\b(?:5-hour|weekly|daily|session|opus|sonnet) limit reached\b/i,
+  /\bhit your limit\b/i,
+  /\bout of (extra )?usage\b/i,
+];
+
+const RATE_LIMIT_PATTERNS = [
+  /\brate[_ ]limit(?:ed|_error)?\b/i,
+  /\btoo many requests\b/i,
+  /\boverloaded_error\b/i,
+  /\b(?:API Error|status|HTTP)\W{0,3}(?:429|529)\b/i,
+];
+
+export interface ClassifyOptions {
+  /** The SDK already flagged the message as rate limited */
+  rateLimited?: boolean | undefined;
+  now?: Date | undefined;
+}
+
+/**
+ * Tell rate and usage limit errors apart from real failures.
+ * Returns null for anything that isn't a limit.
+ */
+export function classifyUsageLimit(text: string, options: ClassifyOptions = {}): UsageLimit | null {
+  const isUsageLimit = USAGE_LIMIT_PATTERNS.some((pattern) => pattern.test(text));
+  const isRateLimit = !!options.rateLimited || RATE_LIMIT_PATTERNS.some((pattern) => pattern.test(text));
+  if (!isUsageLimit && !isRateLimit) {
+    return null;
+  }
+
+  const resetAt = parseResetTime(text, options.now ?? new Date());
+  return {
+    kind: isUsageLimit ? 'usage_limit' : 'rate_limit',
+    message: text.trim().split('\n')[0]?.slice(0, 300) || 'Rate limited',
+    resetAt: resetAt?.toISOString(),
+  };
+}
+
+/**
+ * Find the reset time in a limit message:
+ * "Claude AI usage limit reached|1760036400", "retry after 30 seconds",
+ * "resets 3pm (America/Sao_Paulo)", "resets at 14:30"
+ */
+export function parseResetTime(text: string, now: Date = new Date()): Date | undefined {
+  const epoch = text.match(/\|(\d{10})\b/);
+  if (epoch?.[1]) {
+    return new Date(Number(epoch[1]) * 1000);
+  }
+
+  const relative = text.match(/(?:retry|try again)\D{0,20}(\d+)\s*(seconds?|secs?|s|minutes?|mins?|m|hours?|h)\b/i);
+  if (relative?.[1] && relative[2]) {
+    const unit = relative[2].toLowerCase();
+    const multiplier = unit.startsWith('h') ? 3600_000 : unit.startsWith('m') ? 60_000 : 1000;
+    return new Date(now.getTime() + Number(relative[1]) * multiplier);
+  }
+
+  const clock = text.match(/resets?(?:\s+at)?\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s*\(([\w/+-]+)\))?/i);
+  if (clock?.[1]) {
+    let hours = Number(clock[1]);
+    const minutes = Number(clock[2] ?? 0);
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) {
+      return undefined;
+    }
+    return nextClockTime(hours, minutes, now, clock[4]);
+  }
+
+  return undefined;
+}
+
+/**
+ * How long to wait before trying again. Without a reset time, the backoff
+ * doubles with every consecutive limit hit.
+ */
+export function getUsageLimitDelay(
+  limit: UsageLimit,
+  backoffMs: number,
+  consecutiveHits: number = 1,
+  now: Date = new Date()
+): number {
+  if (limit.resetAt) {
+    const untilReset = Date.parse(limit.resetAt) - now.getTime();
+    if (untilReset > 0) {
+      return untilReset + RESET_MARGIN_MS;
+    }
+  }
+  return Math.min(backoffMs * 2 ** Math.max(0, consecutiveHits - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Next time the clock reads hours:minutes, in the given time zone
+ * (local time when missing or unknown)
+ */
+function nextClockTime(hours: number, minutes: number, now: Date, timeZone?: string): Date {
+  let current = { hours: now.getHours(), minutes: now.getMinutes() };
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+      }).formatToParts(now);
+      const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+      current = { hours: part('hour'), minutes: part('minute') };
+    } catch {
+      // Unknown time zone: assume local time
+    }
+  }
+
+  let deltaMinutes = hours * 60 + minutes - (current.hours * 60 + current.minutes);
+  if (deltaMinutes <= 0) {
+    deltaMinutes += 24 * 60;
+  }
+
+  const next = new Date(now.getTime() + deltaMinutes * 60_000);
+  next.setSeconds(0, 0);
+  return next;
+}
@@ -0,0 +1,164 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { exec } from 'node:child_process';
+import { join } from 'node:path';
+import {
+  getProjectConfigPath,
+  loadProjectConfig,
+  type HarnessProjectConfig,
+} from './project-config.js';
+import type {
+  VerificationCommand,
+  VerificationReport,
+  VerificationResult,
+} from '../types/index.js';
+
+/** package.json scripts used for verification, cheapest first */
+const VERIFICATION_SCRIPTS = ['typecheck', 'lint', 'build', 'test'];
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_OUTPUT_LENGTH = 4000;
+
+// Placeholder script written by `npm init`
+const NPM_DEFAULT_TEST = 'echo "Error: no test specified" && exit 1';
+
+export type PackageManager = 'pnpm' | 'yarn' | 'bun' | 'npm';
+
+export interface VerificationOptions {
+  timeoutMs?: number | undefined;
+  /** Settings already loaded (default: read from the project's config) */
+  config?: HarnessProjectConfig | undefined;
+  onProgress?: ((message: string) => void) | undefined;
+  /** Added to the commands' environment */
+  env?: Record<string, string> | undefined;
+}
+
+/**
+ * Pick the package manager from the lockfile in the project
+ */
+export function detectPackageManager(projectPath: string): PackageManager {
+  if (existsSync(join(projectPath, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (existsSync(join(projectPath, 'yarn.lock'))) return 'yarn';
+  if (existsSync(join(projectPath, 'bun.lockb')) || existsSync(join(projectPath, 'bun.lock'))) {
+    return 'bun';
+  }
+  return 'npm';
+}
+
+/**
+ * Build verification commands from the scripts in package.json
+ */
+export async function detectVerificationCommands(projectPath: string): Promise<VerificationCommand[]> {
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (!existsSync(packageJsonPath)) {
+    return [];
+  }
+
+  let scripts: Record<string, string> = {};
+  try {
+    const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'));
+    scripts = packageJson.scripts ?? {};
+  } catch {
+    return [];
+  }
+
+  const packageManager = detectPackageManager(projectPath);
+  return VERIFICATION_SCRIPTS.filter(
+    (name) => typeof scripts[name] === 'string' && scripts[name] !== NPM_DEFAULT_TEST
+  ).map((name) => ({ name, command: `${packageManager} run ${name}` }));
+}
+
+/**
+ * Run every verification command in the project and collect the results
+ */
+export async function runVerification(
+  projectPath: string,
+  options: VerificationOptions = {}
+): Promise<VerificationReport> {
+  let config: HarnessProjectConfig;
+  let commands: VerificationCommand[];
+  try {
+    config = options.config ?? await loadProjectConfig(projectPath);
+    commands = config.verification?.commands ?? await detectVerificationCommands(projectPath);
+  } catch (error) {
+    // A broken config must not let an unverified feature through
+    return {
+      passed: false,
+      results: [{
+        name: 'config',
+        command: getProjectConfigPath(projectPath),
+        passed: false,
+        exitCode: null,
+        timedOut: false,
+        durationMs: 0,
+        output: error instanceof Error ? error.message : String(error),
+      }],
+    };
+  }
+  const timeoutMs = options.timeoutMs ?? config.verification?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const results: VerificationResult[] = [];
+  for (const command of commands) {
+    options.onProgress?.(`Verifying: ${command.command}`);
+    results.push(await runCommand(projectPath, command, timeoutMs, options.env));
+  }
+
+  return {
+    passed: results.every((r) => r.passed),
+    results,
+  };
+}
+
+/**
+ * Describe failed verification commands for the agent prompt
+ */
+export function formatVerificationFailures(report: VerificationReport): string {
+  return report.results
+    .filter((r) => !r.passed)
+    .map((r) => {
+      const status = r.timedOut ? 'timed out' : `exit code ${r.exitCode}`;
+      return `$ ${r.command} (${status})\n${r.output || '(no output)'}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Run one shell command in the project, capturing the tail of its output
+ */
+export function runCommand(
+  projectPath: string,
+  { name, command }: VerificationCommand,
+  timeoutMs: number,
+  env: Record<string, string> = {}
+): Promise<VerificationResult> {
+  const startedAt = Date.now();
+
+  return new Promise((resolve) => {
+    exec(
+      command,
+      {
+        cwd: projectPath,
+        timeout: timeoutMs,
+        maxBuffer: 20 * 1024 * 1024,
+        // Keep test runners out of watch mode
+        env: { ...process.env, ...env, CI: '1' },
+      },
+      (error, stdout, stderr) => {
+        const output = [stdout, stderr].filter((s) => s.trim()).join('\n').trim();
+        const timedOut = !!error?.killed;
+
+        resolve({
+          name,
+          command,
+          passed: !error,
+          exitCode: error ? (typeof error.code === 'number' ? error.code : null) : 0,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+          output: output.length > MAX_OUTPUT_LENGTH
+            ? `…${output.slice(-MAX_OUTPUT_LENGTH)}`
+            : output,
+        });
+      }
+    );
+  });
+}
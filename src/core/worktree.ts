@@ -0,0 +1,196 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { copyFile, mkdir, readdir, symlink } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { getHarnessDir, HARNESS_DIR_NAME } from './harness-dir.js';
+import { HARNESS_FILES, HARNESS_GIT_IDENTITY } from './rollback.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Branch prefix for feature worktrees */
+export const WORKTREE_BRANCH_PREFIX = 'harness/';
+
+export interface Worktree {
+  featureId: string;
+  path: string;
+  branch: string;
+  /** Commit the worktree was created from */
+  baseCommit: string;
+  /** Paths linked or copied from the main checkout, never committed */
+  linked: string[];
+}
+
+export interface MergeResult {
+  merged: boolean;
+  /** Conflicting paths when the merge was aborted */
+  conflicts: string[];
+  error?: string | undefined;
+}
+
+export function getWorktreesDir(projectPath: string): string {
+  return join(getHarnessDir(projectPath), 'worktrees');
+}
+
+export function getWorktreeBranch(featureId: string): string {
+  return `${WORKTREE_BRANCH_PREFIX}${featureId}`;
+}
+
+/**
+ * Create a worktree and branch for a feature from the current HEAD of the
+ * main checkout. A leftover worktree or branch from an earlier attempt is
+ * replaced.
+ *
+ * The harness files are copied over as they are in the main checkout (they
+ * are usually uncommitted), and node_modules and .env files are linked so
+ * verification works without a fresh install.
+ */
+export async function createWorktree(projectPath: string, featureId: string): Promise<Worktree> {
+  const path = join(getWorktreesDir(projectPath), featureId);
+  const branch = getWorktreeBranch(featureId);
+
+  await discardWorktree(projectPath, path, branch);
+  await mkdir(getWorktreesDir(projectPath), { recursive: true });
+
+  const baseCommit = await git(projectPath, ['rev-parse', 'HEAD']);
+  await git(projectPath, ['worktree', 'add', '-b', branch, path, baseCommit]);
+
+  for (const file of HARNESS_FILES) {
+    const source = join(projectPath, file);
+    if (existsSync(source)) {
+      await copyFile(source, join(path, file));
+    }
+  }
+
+  const linked: string[] = [];
+  if (existsSync(join(projectPath, 'node_modules')) && !existsSync(join(path, 'node_modules'))) {
+    await symlink(join(projectPath, 'node_modules'), join(path, 'node_modules'), 'dir');
+    linked.push('node_modules');
+  }
+  for (const entry of await readdir(projectPath)) {
+    if (entry.startsWith('.env') && !existsSync(join(path, entry))) {
+      await copyFile(join(projectPath, entry), join(path, entry));
+      linked.push(entry);
+    }
+  }
+
+  return { featureId, path, branch, baseCommit, linked };
+}
+
+/**
+ * Commit whatever the agent left uncommitted and put the harness files and
+ * .harness/ back to their base version, so merging the branch never touches
+ * them. The main checkout owns feature_list.json, progress.log and the
+ * harness state.
+ */
+export async function finalizeWorktree(worktree: Worktree, message: string): Promise<void> {
+  const { path, baseCommit } = worktree;
+
+  // Tracked harness files go back to the base version, untracked ones stay out
+  const unstaged = [...worktree.linked];
+  for (const file of HARNESS_FILES) {
+    if (await existsInCommit(path, baseCommit, file)) {
+      await git(path, ['checkout', baseCommit, '--', file]);
+    } else {
+      unstaged.push(file);
+    }
+  }
+
+  await git(path, ['add', '-A']);
+  // Whatever .harness/ holds here (e.g. a .gitignore the main checkout never committed) stays out
+  await git(path, ['reset', '-q', baseCommit, '--', HARNESS_DIR_NAME]);
+  for (const entry of unstaged) {
+    await git(path, ['rm', '-r', '-q', '--cached', '--ignore-unmatch', '--', entry]);
+  }
+
+  if (await hasStagedChanges(path)) {
+    await git(path, ['commit', '-q', '--no-verify', '-m', message], HARNESS_GIT_IDENTITY);
+  }
+}
+
+/**
+ * Take back the merge commit at HEAD of the main checkout. Uncommitted
+ * changes there are kept (git refuses if they would be lost).
+ */
+export async function undoMerge(projectPath: string): Promise<void> {
+  await git(projectPath, ['reset', '-q', '--keep', 'HEAD^1']);
+}
+
+/**
+ * Merge a feature branch into the main checkout. A conflicting merge is
+ * aborted and leaves the main checkout as it was.
+ */
+export async function mergeWorktreeBranch(
+  projectPath: string,
+  branch: string,
+  message: string
+): Promise<MergeResult> {
+  try {
+    await git(projectPath, ['merge', '--no-ff', '--no-edit', '-m', message, branch], HARNESS_GIT_IDENTITY);
+    return { merged: true, conflicts: [] };
+  } catch (error) {
+    const conflicts = (await git(projectPath, ['diff', '--name-only', '--diff-filter=U']).catch(() => ''))
+      .split('\n')
+      .filter(Boolean);
+    await git(projectPath, ['merge', '--abort']).catch(() => undefined);
+
+    return {
+      merged: false,
+      conflicts,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Remove a worktree. The branch is kept unless deleteBranch is set, so a
+ * failed attempt can still be inspected.
+ */
+export async function removeWorktree(
+  projectPath: string,
+  worktree: Worktree,
+  options: { deleteBranch?: boolean | undefined } = {}
+): Promise<void> {
+  await git(projectPath, ['worktree', 'remove', '--force', worktree.path]).catch(() => undefined);
+  await git(projectPath, ['worktree', 'prune']);
+  if (options.deleteBranch) {
+    await git(projectPath, ['branch', '-D', worktree.branch]).catch(() => undefined);
+  }
+}
+
+async function discardWorktree(projectPath: string, path: string, branch: string): Promise<void> {
+  if (existsSync(path)) {
+    await git(projectPath, ['worktree', 'remove', '--force', path]).catch(() => undefined);
+  }
+  await git(projectPath, ['worktree', 'prune']);
+  await git(projectPath, ['branch', '-D', branch]).catch(() => undefined);
+}
+
+async function existsInCommit(cwd: string, commit: string, file: string): Promise<boolean> {
+  try {
+    await git(cwd, ['cat-file', '-e', `${commit}:${file}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function hasStagedChanges(cwd: string): Promise<boolean> {
+  try {
+    await git(cwd, ['diff', '--cached', '--quiet']);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Run git without a shell: messages and paths are passed as they are
+ */
+async function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    ...(env ? { env: { ...process.env, ...env } } : {}),
+  });
+  return stdout.trim();
+}
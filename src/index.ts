@@ -5,6 +5,20 @@ export { ClaudeCodeClient, isClaudeCodeAvailable } from './core/claude-code-clie
 export { ContextBuilder } from './core/context-builder.js';
 export { InitializerAgent } from './agents/initializer.js';
 export { CodingAgent } from './agents/coding-agent.js';
+export {
+  SdkAgentBackend,
+  ClaudeCodeBackend,
+  AGENT_BACKENDS,
+  type AgentBackend,
+  type AgentBackendName,
+} from './core/agent-backend.js';
+export {
+  ScriptedAgentBackend,
+  type AgentScript,
+  type ScriptedSession,
+  type ScriptedStep,
+  type ScriptedResult,
+} from './core/scripted-backend.js';
 export {
   runAgentQuery,
   isAuthConfigured,
@@ -18,6 +32,21 @@ export {
   type AgentQueryOptions,
   type AgentQueryResult,
 } from './core/agent-sdk-client.js';
+export {
+  DEFAULT_TOOL_POLICIES,
+  READ_ONLY_TOOLS,
+  resolveToolPolicy,
+  isToolAllowed,
+  createCanUseTool,
+} from './core/permission-policy.js';
+export {
+  DEFAULT_SETTINGS,
+  resolveSettings,
+  type HarnessSettings,
+  type ResolvedSettings,
+  type SettingSource,
+} from './core/settings.js';
+export { loadProjectConfig, type HarnessProjectConfig } from './core/project-config.js';
 export {
   INITIALIZER_SYSTEM_PROMPT,
   buildInitializerPrompt,
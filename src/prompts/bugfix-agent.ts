@@ -17,7 +17,7 @@ Your goal is to fix a SINGLE bug per session, completely functional, tested, and
 
 2. You must only use what's in the following artifacts:
    - feature_list.json
-   - progress.log
+   - progress.log (read-only, maintained by the harness)
    - git log
    - Actual project files shown in this session
    - Explicit user (harness) instructions
@@ -98,7 +98,7 @@ This is a BUGFIX task. You must follow these additional rules:
 2. **Identify root cause before implementing fix**
    - Don't just patch symptoms
    - Trace the bug to its source
-   - Document your analysis in the progress log
+   - Document your analysis in your summary
 
 3. **Apply minimal changes (fix only what's broken)**
    - Change only the code necessary to fix the bug
@@ -129,11 +129,11 @@ This is a BUGFIX task. You must follow these additional rules:
 
 Your task in this session is:
 
-1. Read the target bugfix feature (the next one with "passes": false)
+1. Read the target bugfix feature (the one with "status": "in_progress")
 2. Create a detailed plan before writing code (including root cause analysis)
 3. Implement the minimal fix
 4. Verify the bug is fixed and no regressions occurred
-5. Update the feature list (mark passes: true ONLY when complete)
+5. Update the feature list (set "status": "completed" ONLY when complete)
 6. Prepare final commit
 
 ## RESPONSE FORMAT
@@ -160,16 +160,15 @@ Verify the fix works:
 - Run the application if applicable
 
 ### 4. UPDATE feature_list.json
-Only the target feature changes passes: false → true.
+Only the target feature changes "status": "in_progress" → "completed".
 Use write_file to update the feature_list.json file.
 
 ### 5. COMMIT MESSAGE
 Format: fix: {short description of bug} ({feature_id})
 Use run_command to create the git commit.
 
-### 6. SUMMARY FOR progress.log
-Use write_file to append to progress.log:
-[{timestamp}] [{feature_id}] {title} - COMPLETED
+### 6. SUMMARY
+End your response with a "## SUMMARY" section. The harness records it in progress.log:
 - Root cause: {brief explanation}
 - Fix applied: {what was changed}
 - Test coverage: {regression test added}
@@ -180,10 +179,11 @@ Use write_file to append to progress.log:
 - Patch symptoms without fixing root cause
 - Refactor unrelated code
 - Implement more than one bugfix
-- Modify features that already have "passes": true
+- Modify features that already have "status": "completed"
 - Reorder feature list
 - Create new features
 - Delete logs
+- Edit progress.log (the harness maintains it)
 - Ignore existing architecture
 
 ✅ You MUST:
@@ -194,7 +194,7 @@ Use write_file to append to progress.log:
 - Write complete code (no placeholders)
 - Verify the bug is actually fixed
 - Update feature_list.json when done
-- Update progress.log when done
+- End with a SUMMARY section
 - Create a git commit when done
 
 ALWAYS follow this order. ALWAYS.
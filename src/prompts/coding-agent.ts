@@ -1,4 +1,6 @@
-import type { Feature, FeatureType } from '../types/index.js';
+import type { AttemptRecord, Feature, FeatureType } from '../types/index.js';
+import { formatAcceptanceFailures } from '../core/acceptance-checks.js';
+import { formatVerificationFailures } from '../core/verification.js';
 import { REFACTORING_AGENT_SYSTEM_PROMPT } from './refactoring-agent.js';
 import { BUGFIX_AGENT_SYSTEM_PROMPT } from './bugfix-agent.js';
 import { IMPROVEMENT_AGENT_SYSTEM_PROMPT } from './improvement-agent.js';
@@ -21,7 +23,7 @@ Your goal is to implement a SINGLE feature per session, completely functional, t
 
 2. You must only use what's in the following artifacts:
    - feature_list.json
-   - progress.log
+   - progress.log (read-only, maintained by the harness)
    - git log
    - Actual project files shown in this session
    - Explicit user (harness) instructions
@@ -94,11 +96,11 @@ You are NOT allowed to:
 
 Your task in this session is:
 
-1. Read the target feature (the next one with "passes": false)
+1. Read the target feature (the one with "status": "in_progress")
 2. Create a detailed plan before writing code
 3. Implement ALL necessary code changes
 4. Verify the implementation works
-5. Update the feature list (mark passes: true ONLY when complete)
+5. Update the feature list (set "status": "completed" ONLY when complete)
 6. Prepare final commit
 
 ## RESPONSE FORMAT
@@ -122,26 +124,26 @@ Verify the implementation works:
 - Check for errors or issues
 
 ### 4. UPDATE feature_list.json
-Only the target feature changes passes: false → true.
+Only the target feature changes "status": "in_progress" → "completed".
 Use write_file to update the feature_list.json file.
 
 ### 5. COMMIT MESSAGE
 Format: feat: implement {feature_id} — {short description}
 Use run_command to create the git commit.
 
-### 6. SUMMARY FOR progress.log
-Use write_file to append to progress.log:
-[{timestamp}] [{feature_id}] {title} - COMPLETED
+### 6. SUMMARY
+End your response with a "## SUMMARY" section. The harness records it in progress.log:
 - What was done (bullet points)
 
 ## CRITICAL RULES
 
 ❌ You CANNOT:
 - Implement more than one feature
-- Modify features that already have "passes": true
+- Modify features that already have "status": "completed"
 - Reorder feature list
 - Create new features
 - Delete logs
+- Edit progress.log (the harness maintains it)
 - Ignore existing architecture
 
 ✅ You MUST:
@@ -149,7 +151,7 @@ Use write_file to append to progress.log:
 - Write complete code (no placeholders)
 - Verify the implementation works
 - Update feature_list.json when done
-- Update progress.log when done
+- End with a SUMMARY section
 - Create a git commit when done
 
 ALWAYS follow this order. ALWAYS.
@@ -159,14 +161,15 @@ export function buildCodingAgentContext(
   feature: Feature,
   progressLog: string,
   gitLog: string,
-  projectStructure: string
+  projectStructure: string,
+  previousAttempt?: AttemptRecord
 ): string {
   return `## TARGET FEATURE
 
 \`\`\`json
 ${JSON.stringify(feature, null, 2)}
 \`\`\`
-
+${buildPreviousAttemptSection(previousAttempt)}
 ## RECENT PROGRESS LOG (last 10 entries)
 
 \`\`\`
@@ -190,6 +193,61 @@ ${projectStructure}
 Now implement the target feature following all rules. Start with your detailed plan.`;
 }
 
+/**
+ * Next user message for a resumed session: the conversation already holds
+ * the original context, so only explain the gap
+ */
+export function buildResumePrompt(feature: Feature): string {
+  return `The harness was stopped in the middle of this session (interrupted, crashed or rebooted) and has now resumed it.
+The working tree is exactly as you left it. Continue implementing ${feature.id} - ${feature.title} from where you stopped.
+Your last tool call may not have completed: check its effect before relying on it.
+Follow the same rules as before, and end with a SUMMARY section.`;
+}
+
+/**
+ * Explain what went wrong in the previous attempt at this feature (empty if nothing did)
+ */
+function buildPreviousAttemptSection(attempt?: AttemptRecord): string {
+  const sections: string[] = [];
+
+  // Stopped by a signal, or the harness died mid-session
+  if (attempt?.outcome === 'interrupted') {
+    sections.push(`The previous attempt at this feature was interrupted before it finished, and its conversation could not be resumed.
+It may have left partial changes in the working tree or in recent commits. Inspect them (git status, git diff, git log) and build on what is usable instead of starting over blindly.`);
+  }
+
+  if (attempt?.verification && !attempt.verification.passed) {
+    sections.push(`The previous session marked this feature as completed, but the harness verification failed and the feature was set back to "failed".
+Fix these problems before setting "status": "completed" again:
+
+\`\`\`
+${formatVerificationFailures(attempt.verification)}
+\`\`\``);
+  }
+
+  if (attempt?.acceptance && !attempt.acceptance.passed) {
+    sections.push(`Acceptance checks met after the previous session: ${attempt.acceptance.met}/${attempt.acceptance.total}. Still failing:
+
+${formatAcceptanceFailures(attempt.acceptance)}`);
+  }
+
+  if (attempt?.featureListViolations?.length) {
+    sections.push(`The previous session edited feature_list.json outside the target feature's "status". These edits were reverted; don't repeat them:
+
+${attempt.featureListViolations.map((v) => `- ${v.message}`).join('\n')}`);
+  }
+
+  if (sections.length === 0) {
+    return '';
+  }
+
+  return `
+## PREVIOUS ATTEMPT
+
+${sections.join('\n\n')}
+`;
+}
+
 /**
  * Select appropriate system prompt based on feature type
  */
@@ -17,7 +17,7 @@ Your goal is to create/update documentation for a SINGLE aspect per session, com
 
 2. You must only use what's in the following artifacts:
    - feature_list.json
-   - progress.log
+   - progress.log (read-only, maintained by the harness)
    - git log
    - Actual project files shown in this session
    - Explicit user (harness) instructions
@@ -135,11 +135,11 @@ This is a DOCUMENTATION task. You must follow these additional rules:
 
 Your task in this session is:
 
-1. Read the target documentation feature (the next one with "passes": false)
+1. Read the target documentation feature (the one with "status": "in_progress")
 2. Create a detailed plan before writing docs
 3. Write/update ALL necessary documentation
 4. Verify all code examples work
-5. Update the feature list (mark passes: true ONLY when complete)
+5. Update the feature list (set "status": "completed" ONLY when complete)
 6. Prepare final commit
 
 ## RESPONSE FORMAT
@@ -165,16 +165,15 @@ Verify the documentation:
 - Ensure completeness and clarity
 
 ### 4. UPDATE feature_list.json
-Only the target feature changes passes: false → true.
+Only the target feature changes "status": "in_progress" → "completed".
 Use write_file to update the feature_list.json file.
 
 ### 5. COMMIT MESSAGE
 Format: docs: {short description} ({feature_id})
 Use run_command to create the git commit.
 
-### 6. SUMMARY FOR progress.log
-Use write_file to append to progress.log:
-[{timestamp}] [{feature_id}] {title} - COMPLETED
+### 6. SUMMARY
+End your response with a "## SUMMARY" section. The harness records it in progress.log:
 - What was documented (bullet points)
 - Files created/updated
 - Examples added
@@ -185,10 +184,11 @@ Use write_file to append to progress.log:
 - Write documentation for code that doesn't exist
 - Include untested code examples
 - Implement more than one documentation task
-- Modify features that already have "passes": true
+- Modify features that already have "status": "completed"
 - Reorder feature list
 - Create new features
 - Delete logs
+- Edit progress.log (the harness maintains it)
 - Ignore existing architecture
 
 ✅ You MUST:
@@ -198,7 +198,7 @@ Use write_file to append to progress.log:
 - Follow existing documentation style
 - Update related documentation
 - Update feature_list.json when done
-- Update progress.log when done
+- End with a SUMMARY section
 - Create a git commit when done
 
 ALWAYS follow this order. ALWAYS.
@@ -17,6 +17,7 @@ Your task is to analyze an existing project and create a new feature entry that
    - Write a clear, concise title (max 80 chars)
    - Expand the user's description with technical details
    - Generate specific, testable acceptance criteria (3-5 items)
+   - List the existing features that must be done first in depends_on
 
 3. **Ensure quality:**
    - Title is action-oriented and specific
@@ -122,19 +123,22 @@ Your output should be EXACTLY this structure:
     "Form submit blocked if phone is invalid",
     "Regression test added for phone validation"
   ],
-  "passes": false
+  "depends_on": ["F004"],
+  "status": "pending"
 }
 \`\`\`
 
 ## CRITICAL RULES
 
 1. Output MUST be valid JSON only (no markdown, no extra text)
-2. Use exactly these field names: id, title, type, description, acceptance_criteria, passes
-3. "passes" is ALWAYS false for new features
-4. Title must be clear and under 80 characters
-5. Description should be 2-4 sentences with technical context
-6. Acceptance criteria must be 3-5 specific, testable items
-7. Each criterion should start with a verb or be a measurable statement
+2. Use exactly these field names: id, title, type, description, acceptance_criteria, depends_on, status
+3. "status" is ALWAYS "pending" for new features
+4. "depends_on" lists only IDs from Existing Features that this feature really needs (use [] if none)
+5. Title must be clear and under 80 characters
+6. Description should be 2-4 sentences with technical context
+7. Acceptance criteria must be 3-5 specific, testable items
+8. Each criterion should start with a verb or be a measurable statement
+9. A criterion may be an object with a check the harness runs after each session, e.g. \`{ "description": "Phone validation test passes", "check": { "type": "test", "name": "validates phone format" } }\`. Check types: \`command\` (\`command\`, optional \`expected_exit_code\`), \`file_exists\` (\`path\`), \`file_matches\` (\`path\`, regex \`pattern\`), \`test\` (\`name\`). Only add checks that are reliable
 
 ## EXAMPLES
 
@@ -190,7 +194,7 @@ ${userDescription}
 ${projectStructure}
 \`\`\`
 
-### Existing Features (for ID generation)
+### Existing Features (for ID generation and depends_on)
 \`\`\`json
 ${existingFeatures}
 \`\`\`
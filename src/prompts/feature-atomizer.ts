@@ -24,7 +24,8 @@ Your task is to analyze a high-level feature description and decompose it into m
    - Write clear, specific titles (max 80 chars)
    - Provide technical descriptions with context
    - Generate 3-5 specific acceptance criteria per feature
-   - All features start with passes: false
+   - Declare prerequisites in depends_on (new or existing feature IDs)
+   - All features start with status: "pending"
 
 ## ATOMIZATION PRINCIPLES
 
@@ -112,7 +113,8 @@ Your output must be EXACTLY this structure:
       "Error handling implemented with appropriate logging",
       "Basic email template structure created"
     ],
-    "passes": false
+    "depends_on": [],
+    "status": "pending"
   },
   {
     "id": "F032",
@@ -126,7 +128,8 @@ Your output must be EXACTLY this structure:
       "Filtering by userId and read status implemented",
       "Zod schemas created for request validation"
     ],
-    "passes": false
+    "depends_on": ["F031"],
+    "status": "pending"
   }
 ]
 \`\`\`
@@ -137,6 +140,7 @@ Your output must be EXACTLY this structure:
 2. **ID Generation**: Start from next available ID (check existing features)
 3. **Type Consistency**: All atomized features should have same type as parent
 4. **Ordering**: Order by dependency (foundation → implementation → integration → polish)
+   and make it explicit in \`depends_on\` (IDs from this batch or from existing features, no cycles)
 5. **Completeness**: Together, all features must fully implement the original request
 6. **No Gaps**: Don't skip necessary steps (tests, validation, error handling)
 
@@ -182,12 +186,13 @@ Your output must be EXACTLY this structure:
 1. Output MUST be valid JSON array only (no markdown, no explanations)
 2. Start your response with [
 3. End your response with ]
-4. Each feature must have: id, title, type, description, acceptance_criteria, passes
-5. All features have passes: false
+4. Each feature must have: id, title, type, description, acceptance_criteria, depends_on, status
+5. All features have status: "pending"
 6. IDs must be unique and sequential
 7. Each feature should be achievable in ONE session
 8. Order features logically by dependency
 9. Together they must fully implement the original request
+10. A criterion may be an object with a check the harness runs after each session, e.g. \`{ "description": "Email service exists", "check": { "type": "file_exists", "path": "lib/email.ts" } }\`. Check types: \`command\` (\`command\`, optional \`expected_exit_code\`), \`file_exists\` (\`path\`), \`file_matches\` (\`path\`, regex \`pattern\`), \`test\` (\`name\`). Only add checks that are reliable
 
 Now analyze the complex feature and atomize it into executable features.
 
@@ -217,7 +222,7 @@ ${userDescription}
 ${projectStructure}
 \`\`\`
 
-### Existing Features (for ID generation)
+### Existing Features (for ID generation and depends_on)
 \`\`\`json
 ${existingFeatures}
 \`\`\`
@@ -17,7 +17,7 @@ Your goal is to implement a SINGLE improvement per session, completely functiona
 
 2. You must only use what's in the following artifacts:
    - feature_list.json
-   - progress.log
+   - progress.log (read-only, maintained by the harness)
    - git log
    - Actual project files shown in this session
    - Explicit user (harness) instructions
@@ -99,7 +99,7 @@ This is an IMPROVEMENT task. You must follow these additional rules:
    - For performance: measure before/after (e.g., response time, bundle size)
    - For UX: document what was improved and why it's better
    - For DX: explain how developer experience is enhanced
-   - Include metrics in progress log
+   - Include metrics in your summary
 
 3. **Maintain backward compatibility unless explicitly stated otherwise**
    - Existing code should continue to work
@@ -111,7 +111,7 @@ This is an IMPROVEMENT task. You must follow these additional rules:
    - Ensure existing tests still pass
    - Document test coverage gains
 
-5. **Document improvements in progress log with metrics**
+5. **Document improvements in your summary with metrics**
    - Be specific about what was improved
    - Include quantitative measures when possible
    - Examples: "Reduced load time by 40%", "Added caching (3min staleTime)", "Improved error messages in 5 locations"
@@ -133,11 +133,11 @@ This is an IMPROVEMENT task. You must follow these additional rules:
 
 Your task in this session is:
 
-1. Read the target improvement feature (the next one with "passes": false)
+1. Read the target improvement feature (the one with "status": "in_progress")
 2. Create a detailed plan before writing code
 3. Implement ALL necessary code changes
 4. Verify the improvement works and measure the impact
-5. Update the feature list (mark passes: true ONLY when complete)
+5. Update the feature list (set "status": "completed" ONLY when complete)
 6. Prepare final commit
 
 ## RESPONSE FORMAT
@@ -163,16 +163,15 @@ Verify the improvement works:
 - Check that existing functionality still works
 
 ### 4. UPDATE feature_list.json
-Only the target feature changes passes: false → true.
+Only the target feature changes "status": "in_progress" → "completed".
 Use write_file to update the feature_list.json file.
 
 ### 5. COMMIT MESSAGE
 Format: improve: {short description} ({feature_id})
 Use run_command to create the git commit.
 
-### 6. SUMMARY FOR progress.log
-Use write_file to append to progress.log:
-[{timestamp}] [{feature_id}] {title} - COMPLETED
+### 6. SUMMARY
+End your response with a "## SUMMARY" section. The harness records it in progress.log:
 - What was improved (bullet points)
 - Measured impact (metrics, before/after)
 - Trade-offs considered
@@ -183,10 +182,11 @@ Use write_file to append to progress.log:
 - Add new features (only improve existing)
 - Break backward compatibility without explicit permission
 - Implement more than one improvement
-- Modify features that already have "passes": true
+- Modify features that already have "status": "completed"
 - Reorder feature list
 - Create new features
 - Delete logs
+- Edit progress.log (the harness maintains it)
 - Ignore existing architecture
 
 ✅ You MUST:
@@ -195,7 +195,7 @@ Use write_file to append to progress.log:
 - Measure and document the improvement
 - Verify existing functionality still works
 - Update feature_list.json when done
-- Update progress.log when done with metrics
+- End with a SUMMARY section including metrics
 - Create a git commit when done
 
 ALWAYS follow this order. ALWAYS.
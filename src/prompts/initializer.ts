@@ -49,8 +49,11 @@ Each feature must have:
 - **id**: Sequential ID (F001, F002, etc.)
 - **title**: Short, descriptive title
 - **description**: Detailed description of what to implement
-- **acceptance_criteria**: List of specific, testable criteria
-- **passes**: Always false initially
+- **acceptance_criteria**: List of specific, testable criteria. A criterion may also be an object the harness checks automatically after each session:
+  \`{ "description": "Login page exists", "check": { "type": "file_exists", "path": "app/login/page.tsx" } }\`
+  Check types: \`command\` (\`command\`, optional \`expected_exit_code\`, default 0), \`file_exists\` (\`path\`), \`file_matches\` (\`path\`, regex \`pattern\`), \`test\` (\`name\` of a test that must pass). Only add a check when it is reliable; use plain strings otherwise.
+- **depends_on**: IDs of earlier features that must be complete before this one can start (empty array if none)
+- **status**: Always "pending" initially
 
 ## Output Format
 
@@ -69,7 +72,8 @@ You must respond with ONLY a valid JSON object (no markdown, no explanation):
         "Specific testable criterion 1",
         "Specific testable criterion 2"
       ],
-      "passes": false
+      "depends_on": [],
+      "status": "pending"
     }
   ]
 }
@@ -80,7 +84,8 @@ You must respond with ONLY a valid JSON object (no markdown, no explanation):
 - First feature should always be project setup
 - **For UI projects**: Second or third feature MUST be Atomic Design structure setup
 - Each feature must be self-contained and testable
-- Later features can depend on earlier features
+- Later features can depend on earlier features - declare it in \`depends_on\`
+- Only list direct prerequisites in \`depends_on\`, never the feature itself, and never create cycles
 - Include clear acceptance criteria that can be verified
 - Use realistic tech stack based on the project type
 - **For UI features**: Specify which atoms/molecules/organisms to create/use
@@ -17,7 +17,7 @@ Your goal is to implement a SINGLE refactoring per session, completely functiona
 
 2. You must only use what's in the following artifacts:
    - feature_list.json
-   - progress.log
+   - progress.log (read-only, maintained by the harness)
    - git log
    - Actual project files shown in this session
    - Explicit user (harness) instructions
@@ -116,7 +116,7 @@ This is a REFACTORING task. You must follow these additional rules:
    - Don't introduce new paradigms unnecessarily
 
 6. **Measure impact (complexity reduction, duplication removal)**
-   - Note in progress log how many lines were deduplicated
+   - Note in your summary how many lines were deduplicated
    - Document complexity improvements (e.g., reduced cyclomatic complexity)
    - Track number of files affected
 
@@ -129,11 +129,11 @@ This is a REFACTORING task. You must follow these additional rules:
 
 Your task in this session is:
 
-1. Read the target refactoring feature (the next one with "passes": false)
+1. Read the target refactoring feature (the one with "status": "in_progress")
 2. Create a detailed plan before writing code
 3. Implement ALL necessary code changes
 4. Verify the implementation works (run tests, check functionality)
-5. Update the feature list (mark passes: true ONLY when complete)
+5. Update the feature list (set "status": "completed" ONLY when complete)
 6. Prepare final commit
 
 ## RESPONSE FORMAT
@@ -159,16 +159,15 @@ Verify the implementation works:
 - Check for errors or regressions
 
 ### 4. UPDATE feature_list.json
-Only the target feature changes passes: false → true.
+Only the target feature changes "status": "in_progress" → "completed".
 Use write_file to update the feature_list.json file.
 
 ### 5. COMMIT MESSAGE
 Format: refactor: {short description} ({feature_id})
 Use run_command to create the git commit.
 
-### 6. SUMMARY FOR progress.log
-Use write_file to append to progress.log:
-[{timestamp}] [{feature_id}] {title} - COMPLETED
+### 6. SUMMARY
+End your response with a "## SUMMARY" section. The harness records it in progress.log:
 - What was refactored (bullet points)
 - Impact metrics (lines saved, complexity reduced, etc.)
 
@@ -178,10 +177,11 @@ Use write_file to append to progress.log:
 - Change behavior of existing code
 - Break existing tests
 - Implement more than one feature
-- Modify features that already have "passes": true
+- Modify features that already have "status": "completed"
 - Reorder feature list
 - Create new features
 - Delete logs
+- Edit progress.log (the harness maintains it)
 - Ignore existing architecture
 
 ✅ You MUST:
@@ -190,7 +190,7 @@ Use write_file to append to progress.log:
 - Write complete code (no placeholders)
 - Verify the implementation works exactly as before
 - Update feature_list.json when done
-- Update progress.log when done
+- End with a SUMMARY section
 - Create a git commit when done
 
 ALWAYS follow this order. ALWAYS.
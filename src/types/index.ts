@@ -6,14 +6,39 @@ export type FeatureType = 'feature' | 'refactoring' | 'bugfix' | 'improvement' |
 
 export type TargetType = 'web' | 'mobile' | 'shared' | 'full' | 'backend' | 'api';
 
+export type FeatureStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'blocked'
+  | 'skipped';
+
+/**
+ * Machine-checkable form of an acceptance criterion, evaluated by the harness after each session
+ */
+export type AcceptanceCheck =
+  | { type: 'command'; command: string; expected_exit_code?: number }
+  | { type: 'file_exists'; path: string }
+  | { type: 'file_matches'; path: string; pattern: string; flags?: string }
+  | { type: 'test'; name: string; command?: string };
+
+/**
+ * A plain string (read only by the agent) or a description with an optional check
+ */
+export type AcceptanceCriterion =
+  | string
+  | { description: string; check?: AcceptanceCheck };
+
 export interface Feature {
   id: string;
   title: string;
   description: string;
-  acceptance_criteria: string[];
-  passes: boolean;
+  acceptance_criteria: AcceptanceCriterion[];
+  status: FeatureStatus; // Replaces the legacy `passes` boolean (migrated on load)
   type?: FeatureType; // Optional for backward compatibility
   target?: TargetType; // Optional: web, mobile, shared, full, backend, api
+  depends_on?: string[]; // Optional: IDs of features that must pass first
 }
 
 export interface FeatureList {
@@ -35,6 +60,15 @@ export interface ProjectConfig {
 // Session & Context Types
 // ============================================
 
+/**
+ * Which feature a coding session should work on.
+ * featureId wins over featureType; with neither, the next ready feature is used.
+ */
+export interface SessionTarget {
+  featureId?: string | undefined;
+  featureType?: FeatureType | undefined;
+}
+
 export interface SessionContext {
   feature: Feature;
   progressLog: string;
@@ -53,7 +87,263 @@ export interface SessionResult {
   featureId: string;
   commitHash?: string | undefined;
   error?: string | undefined;
-  progressEntry: string;
+  progressEntry?: ProgressEntry | undefined;
+  verification?: VerificationReport | undefined;
+  acceptance?: AcceptanceReport | undefined;
+  rollback?: RollbackRecord | undefined;
+  featureListViolations?: FeatureListViolation[] | undefined;
+  attemptId?: string | undefined;
+  totalCostUsd?: number | undefined;
+  numTurns?: number | undefined;
+  usage?: TokenUsage | undefined;
+  /** Set when the session was stopped by a rate or usage limit */
+  usageLimit?: UsageLimit | undefined;
+  transcript?: TranscriptRecord | undefined;
+  /** Interrupted attempt whose session this one continued */
+  resumedFrom?: string | undefined;
+  /** Set when the session was stopped by a shutdown signal */
+  interrupted?: boolean | undefined;
+  killedProcesses?: KilledProcess[] | undefined;
+  /** Tool calls refused by the tool policy or the path guard */
+  deniedToolCalls?: ToolDenial[] | undefined;
+}
+
+// ============================================
+// Attempt History Types
+// ============================================
+
+/**
+ * running: session still going (or the harness crashed mid-session)
+ * completed: feature marked as completed
+ * failed: session ended without completing the feature
+ * error: the agent session itself errored
+ * limited: cut off by a rate or usage limit (not counted against the feature)
+ * interrupted: stopped by Ctrl-C/SIGTERM, or found cut off by a crash (not counted against the feature)
+ */
+export type AttemptOutcome = 'running' | 'completed' | 'failed' | 'error' | 'limited' | 'interrupted';
+
+/**
+ * What to do with the changes of a failed session:
+ * stash them under refs/harness/attempts/<id> and reset, reset, or keep them
+ */
+export type RollbackPolicy = 'stash' | 'reset' | 'none';
+
+export interface RollbackRecord {
+  policy: RollbackPolicy;
+  /** Ref holding the abandoned work (stash policy) */
+  ref?: string | undefined;
+  /** Why the rollback didn't happen */
+  skipped?: string | undefined;
+}
+
+export interface TranscriptRecord {
+  /** JSONL file, relative to the project root */
+  path: string;
+  messages: number;
+  bytes: number;
+  /** Messages left out once the size limit was reached */
+  dropped?: number | undefined;
+}
+
+/**
+ * Enough to continue a session after the harness stopped in the middle of it
+ */
+export interface SessionCheckpoint {
+  /** Agent session id (SDK or Claude Code CLI) */
+  sessionId: string;
+  /** HEAD and working tree when last saved (see getWorkspaceFingerprint) */
+  fingerprint?: string | undefined;
+  savedAt: string;
+}
+
+/**
+ * A process the harness killed: left running inside the project by a
+ * session, or holding a configured port before one started
+ */
+export interface KilledProcess {
+  pid: number;
+  command: string;
+  /** Port it was listening on (freed before the session) */
+  port?: number | undefined;
+}
+
+export interface AttemptRecord {
+  id: string;
+  featureId: string;
+  featureTitle: string;
+  startedAt: string;
+  endedAt?: string | undefined;
+  durationMs?: number | undefined;
+  outcome: AttemptOutcome;
+  numTurns?: number | undefined;
+  totalCostUsd?: number | undefined;
+  usage?: TokenUsage | undefined;
+  usageLimit?: UsageLimit | undefined;
+  error?: string | undefined;
+  /** Result of the verification commands (only when the agent claimed completion) */
+  verification?: VerificationReport | undefined;
+  /** Results of the criteria that carry a check */
+  acceptance?: AcceptanceReport | undefined;
+  /** How the changes of a failed session were rolled back */
+  rollback?: RollbackRecord | undefined;
+  /** Out-of-scope edits to feature_list.json that were reverted */
+  featureListViolations?: FeatureListViolation[] | undefined;
+  /** Full message stream of the session */
+  transcript?: TranscriptRecord | undefined;
+  /** Saved while the session runs so an interrupted session can be resumed */
+  checkpoint?: SessionCheckpoint | undefined;
+  /** Interrupted attempt whose session this one continued */
+  resumedFrom?: string | undefined;
+  /** Processes killed before (configured ports) and after the session (leftovers) */
+  killedProcesses?: KilledProcess[] | undefined;
+  /** Tool calls refused by the tool policy or the path guard */
+  deniedToolCalls?: ToolDenial[] | undefined;
+  /** HEAD before and after the session */
+  commitRange: {
+    from?: string | undefined;
+    to?: string | undefined;
+  };
+}
+
+// ============================================
+// Feature List Guard Types
+// ============================================
+
+/**
+ * An edit to feature_list.json the agent wasn't allowed to make (and that was reverted)
+ */
+export interface FeatureListViolation {
+  kind: 'invalid' | 'metadata' | 'added' | 'removed' | 'reordered' | 'modified' | 'status';
+  featureId?: string | undefined;
+  field?: string | undefined;
+  message: string;
+}
+
+// ============================================
+// Verification Types
+// ============================================
+
+export interface VerificationCommand {
+  name: string;
+  command: string;
+}
+
+export interface VerificationResult extends VerificationCommand {
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Tail of combined stdout/stderr */
+  output: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  results: VerificationResult[];
+}
+
+export interface CriterionResult {
+  /** Position in acceptance_criteria */
+  index: number;
+  description: string;
+  check: AcceptanceCheck;
+  passed: boolean;
+  /** Why the check failed (command output, missing file, ...) */
+  output?: string | undefined;
+}
+
+export interface AcceptanceReport {
+  passed: boolean;
+  met: number;
+  total: number;
+  results: CriterionResult[];
+}
+
+// ============================================
+// Progress Log Types
+// ============================================
+
+/**
+ * One line of progress.log, written by the harness after every coding session
+ */
+export interface ProgressEntry {
+  timestamp: string;
+  featureId: string;
+  title: string;
+  outcome: Exclude<AttemptOutcome, 'running'>;
+  commit?: string | undefined;
+  durationMs?: number | undefined;
+  costUsd?: number | undefined;
+  /** Closing summary from the agent (or the error message) */
+  summary: string;
+}
+
+// ============================================
+// Loop Retry Types
+// ============================================
+
+/**
+ * What `loop` does with a feature that used up its attempts:
+ * mark it blocked, split it with the atomizer, or stop the loop
+ */
+export type StuckAction = 'block' | 'atomize' | 'stop';
+
+export interface StuckEscalation {
+  featureId: string;
+  title: string;
+  attempts: number;
+  /** Action actually taken (atomize falls back to block if atomizing fails) */
+  action: StuckAction;
+  lastError?: string | undefined;
+  /** e.g. IDs of the features created by atomize */
+  detail?: string | undefined;
+}
+
+// ============================================
+// Budget Types
+// ============================================
+
+/** Tokens reported by the SDK for one session */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface BudgetLimits {
+  /** Spend for the whole run or loop */
+  totalUsd?: number | undefined;
+  /** Spend per session, enforced by the SDK */
+  sessionUsd?: number | undefined;
+  /** Spend per feature, across all its recorded attempts */
+  featureUsd?: number | undefined;
+  /** Tokens for the whole loop */
+  totalTokens?: number | undefined;
+}
+
+export type BudgetScope = 'total' | 'feature' | 'tokens';
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  message: string;
+}
+
+// ============================================
+// Usage Limit Types
+// ============================================
+
+/**
+ * rate_limit: API throttling (429, overloaded), usually gone in minutes
+ * usage_limit: subscription usage window used up until it resets
+ */
+export type UsageLimitKind = 'rate_limit' | 'usage_limit';
+
+export interface UsageLimit {
+  kind: UsageLimitKind;
+  message: string;
+  /** When the limit resets, if the error said so (ISO timestamp) */
+  resetAt?: string | undefined;
 }
 
 // ============================================
@@ -61,17 +351,75 @@ export interface SessionResult {
 // ============================================
 
 export interface AgentConfig {
-  model: string;
+  /** Claude model for the agent's sessions (default: Claude Code's own default) */
+  model?: string | undefined;
   maxTokens: number;
   temperature?: number | undefined;
 }
 
 export const DEFAULT_AGENT_CONFIG: AgentConfig = {
-  model: 'claude-sonnet-4-20250514', // Not used directly, but for reference
   maxTokens: 8192,
   temperature: 0,
 };
 
+// ============================================
+// Tool Permission Types
+// ============================================
+
+/** What a tool policy applies to: a coding session (by feature type) or a planning agent */
+export type PolicyAgent = FeatureType | 'initializer' | 'feature-adder' | 'atomizer';
+
+/**
+ * Tools an agent may use, by Claude Code tool name. A trailing "*" matches a
+ * prefix (e.g. "mcp__supabase__*"). Deny wins over allow.
+ */
+export interface ToolPolicy {
+  /** Only these tools are allowed (default: every tool) */
+  allow?: string[] | undefined;
+  deny?: string[] | undefined;
+}
+
+/**
+ * Path guard: file edits and Bash redirections may only write inside the
+ * working directory, the temp directory and these paths
+ */
+export interface SandboxOptions {
+  /** Default: true */
+  enabled?: boolean | undefined;
+  /** Extra writable paths, relative to the project or absolute (~ allowed) */
+  allowedPaths?: string[] | undefined;
+}
+
+/**
+ * Project changes to the Bash command rules
+ */
+export interface CommandPolicy {
+  /** Built-in rules to turn off, by id (e.g. "git-push") */
+  disable?: string[] | undefined;
+  /** Commands matching one of these are denied too */
+  deny?: DeniedCommandPattern[] | undefined;
+}
+
+export interface DeniedCommandPattern {
+  /** Regular expression tested against the whole command */
+  pattern: string;
+  reason?: string | undefined;
+}
+
+/**
+ * A tool call the harness refused
+ */
+export interface ToolDenial {
+  tool: string;
+  reason: string;
+  /** The path outside the project the call would have written to */
+  path?: string | undefined;
+  /** The Bash command, when a command rule denied it */
+  command?: string | undefined;
+  /** Id of the command rule, or the project's pattern */
+  rule?: string | undefined;
+}
+
 // ============================================
 // CLI Types
 // ============================================